@@ -0,0 +1,335 @@
+/**
+ * Persistent on-disk cache of AQS responses
+ *
+ * Responses are stored as one JSON file per request, keyed by endpoint and
+ * normalized parameters with credentials excluded, so a repeated question
+ * is answered without waiting out the rate limit. How long an entry lives
+ * depends on whether its data can still change: years that EPA has
+ * certified are kept for weeks, the current year for an hour.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+import { Logger, logger } from './logger.js';
+import type { AqsResponse } from './types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_CERTIFIED_TTL_MS = 30 * 24 * HOUR_MS;
+const DEFAULT_RECENT_TTL_MS = HOUR_MS;
+const DEFAULT_REFERENCE_TTL_MS = 24 * HOUR_MS;
+
+// Parameters that identify the caller rather than the question
+const CREDENTIAL_PARAMS = new Set(['email', 'key']);
+
+// Endpoints whose answer must always be live
+const UNCACHED_ENDPOINTS = new Set(['signup', 'metaData/isAvailable']);
+
+// Names of the files set() writes: the SHA-256 of the request
+const ENTRY_FILE_NAME = /^[0-9a-f]{64}\.json$/;
+
+/**
+ * Default cache directory, following the XDG base directory convention
+ */
+export function defaultCacheDirectory(env: NodeJS.ProcessEnv = process.env): string {
+  return join(env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'aqs-mcp');
+}
+
+/**
+ * Whether EPA has certified a year of data
+ *
+ * Monitoring agencies must certify a year's data by May 1 of the following
+ * year; after that the data rarely changes.
+ */
+export function isCertifiedYear(year: number, now: Date): boolean {
+  return now.getTime() >= Date.UTC(year + 1, 4, 1);
+}
+
+/**
+ * Options for creating a response cache
+ */
+export interface ResponseCacheOptions {
+  /** Directory holding the cache files */
+  directory: string;
+  /** Lifetime of data from certified years in milliseconds */
+  certifiedTtlMs?: number;
+  /** Lifetime of data from years not yet certified in milliseconds */
+  recentTtlMs?: number;
+  /** Lifetime of reference lists and metadata in milliseconds */
+  referenceTtlMs?: number;
+}
+
+/**
+ * A cached response as stored on disk
+ */
+interface CacheEntry<T = unknown> {
+  endpoint: string;
+  params: Record<string, string>;
+  storedAt: string;
+  expiresAt: string;
+  response: AqsResponse<T>;
+}
+
+/**
+ * Whether a parsed cache file has the fields of an entry
+ *
+ * The cache directory may be shared with other files; anything else is
+ * neither counted nor removed.
+ */
+function isCacheEntry(value: unknown): value is CacheEntry {
+  const entry = value as Partial<CacheEntry> | null;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.endpoint === 'string' &&
+    typeof entry.storedAt === 'string' &&
+    typeof entry.expiresAt === 'string'
+  );
+}
+
+/**
+ * Summary of the cache contents
+ */
+export interface CacheStats {
+  directory: string;
+  entries: number;
+  expired: number;
+  bytes: number;
+  oldest?: string;
+  newest?: string;
+  byEndpoint: Record<string, number>;
+  session: { hits: number; misses: number };
+}
+
+/**
+ * Options for purging cache entries
+ */
+export interface PurgeOptions {
+  /** Only remove entries that have expired */
+  expiredOnly?: boolean;
+  /** Only remove entries for this endpoint (e.g. "sampleData/bySite") */
+  endpoint?: string;
+}
+
+/**
+ * Disk cache of AQS responses
+ *
+ * Cache failures (unreadable files, a full disk) are logged and treated as
+ * misses; they never fail the request itself.
+ */
+export class ResponseCache {
+  readonly directory: string;
+  private readonly certifiedTtlMs: number;
+  private readonly recentTtlMs: number;
+  private readonly referenceTtlMs: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: ResponseCacheOptions) {
+    this.directory = options.directory;
+    this.certifiedTtlMs = options.certifiedTtlMs ?? DEFAULT_CERTIFIED_TTL_MS;
+    this.recentTtlMs = options.recentTtlMs ?? DEFAULT_RECENT_TTL_MS;
+    this.referenceTtlMs = options.referenceTtlMs ?? DEFAULT_REFERENCE_TTL_MS;
+  }
+
+  /**
+   * Request parameters without credentials, in sorted key order
+   */
+  private normalize(params: Record<string, string>): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const name of Object.keys(params).sort()) {
+      const value = params[name];
+      if (!CREDENTIAL_PARAMS.has(name) && value !== undefined && value !== null && value !== '') {
+        normalized[name] = String(value).trim();
+      }
+    }
+    return normalized;
+  }
+
+  /**
+   * Path of the cache file for a request
+   */
+  private pathFor(endpoint: string, params: Record<string, string>): string {
+    const key = createHash('sha256')
+      .update(JSON.stringify([endpoint, this.normalize(params)]))
+      .digest('hex');
+    return join(this.directory, `${key}.json`);
+  }
+
+  /**
+   * Lifetime of a response in milliseconds; 0 means do not cache
+   */
+  ttlFor(endpoint: string, params: Record<string, string>, now = new Date()): number {
+    if (UNCACHED_ENDPOINTS.has(endpoint)) {
+      return 0;
+    }
+
+    // Change windows ask what was edited recently
+    if (params.cbdate) {
+      return this.recentTtlMs;
+    }
+
+    if (params.edate) {
+      const year = parseInt(params.edate.substring(0, 4), 10);
+      return isCertifiedYear(year, now) ? this.certifiedTtlMs : this.recentTtlMs;
+    }
+
+    return this.referenceTtlMs;
+  }
+
+  /**
+   * Look up a cached response that has not expired
+   *
+   * Read failures are logged to `log`, the calling request's logger.
+   */
+  async get<T>(
+    endpoint: string,
+    params: Record<string, string>,
+    log: Logger = logger
+  ): Promise<AqsResponse<T> | undefined> {
+    if (this.ttlFor(endpoint, params) === 0) {
+      return undefined;
+    }
+
+    try {
+      const entry: unknown = JSON.parse(await readFile(this.pathFor(endpoint, params), 'utf8'));
+
+      if (isCacheEntry(entry) && Date.parse(entry.expiresAt) > Date.now()) {
+        this.hits++;
+        return (entry as CacheEntry<T>).response;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn('Cache read failed', { endpoint, error });
+      }
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * Store a response
+   *
+   * Write failures are logged to `log`, the calling request's logger.
+   */
+  async set<T>(
+    endpoint: string,
+    params: Record<string, string>,
+    response: AqsResponse<T>,
+    log: Logger = logger
+  ): Promise<void> {
+    const now = new Date();
+    const ttl = this.ttlFor(endpoint, params, now);
+    if (ttl === 0) {
+      return;
+    }
+
+    const entry: CacheEntry<T> = {
+      endpoint,
+      params: this.normalize(params),
+      storedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttl).toISOString(),
+      response,
+    };
+
+    try {
+      const filePath = this.pathFor(endpoint, params);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+
+      // Write then rename, so readers never see a partial file
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(tempPath, JSON.stringify(entry), 'utf8');
+      await rename(tempPath, filePath);
+    } catch (error) {
+      log.warn('Cache write failed', { endpoint, error });
+    }
+  }
+
+  /**
+   * Read every cache entry with its file path and size
+   *
+   * Only files named and shaped like the ones set() writes are entries.
+   */
+  private async entries(): Promise<Array<{ path: string; bytes: number; entry: CacheEntry }>> {
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const results: Array<{ path: string; bytes: number; entry: CacheEntry }> = [];
+    for (const name of names.filter(n => ENTRY_FILE_NAME.test(n))) {
+      const path = join(this.directory, name);
+      try {
+        const [content, info] = await Promise.all([readFile(path, 'utf8'), stat(path)]);
+        const entry: unknown = JSON.parse(content);
+        if (isCacheEntry(entry)) {
+          results.push({ path, bytes: info.size, entry });
+        }
+      } catch {
+        // Skip files removed or rewritten while listing
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Summarize the cache contents and this session's hit rate
+   */
+  async stats(): Promise<CacheStats> {
+    const now = Date.now();
+    const stats: CacheStats = {
+      directory: this.directory,
+      entries: 0,
+      expired: 0,
+      bytes: 0,
+      byEndpoint: {},
+      session: { hits: this.hits, misses: this.misses },
+    };
+
+    for (const { bytes, entry } of await this.entries()) {
+      stats.entries++;
+      stats.bytes += bytes;
+      if (Date.parse(entry.expiresAt) <= now) {
+        stats.expired++;
+      }
+      stats.byEndpoint[entry.endpoint] = (stats.byEndpoint[entry.endpoint] ?? 0) + 1;
+      if (!stats.oldest || entry.storedAt < stats.oldest) {
+        stats.oldest = entry.storedAt;
+      }
+      if (!stats.newest || entry.storedAt > stats.newest) {
+        stats.newest = entry.storedAt;
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Remove cache entries and return how many were removed
+   */
+  async purge(options: PurgeOptions = {}): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const { path, entry } of await this.entries()) {
+      if (options.expiredOnly && Date.parse(entry.expiresAt) > now) {
+        continue;
+      }
+      if (options.endpoint && entry.endpoint !== options.endpoint) {
+        continue;
+      }
+      await unlink(path).catch(() => undefined);
+      removed++;
+    }
+
+    return removed;
+  }
+}
@@ -0,0 +1,477 @@
+/**
+ * Declarative catalog of AQS data services
+ *
+ * Most AQS data services take the same arguments (a parameter code and a
+ * date range) and are offered for the same geographies (site, county,
+ * state, bounding box, CBSA, PQAO, monitoring agency). The catalog lists
+ * each service once with the geographies it supports; one tool is
+ * generated per service and geography, e.g. dailyData + county becomes
+ * aqs_daily_summary_by_county calling dailyData/byCounty.
+ *
+ * When EPA adds a service, it can be offered without a code change by
+ * listing it in a catalog file:
+ *
+ *   {
+ *     "services": [
+ *       {
+ *         "service": "dailyAqiData",
+ *         "tool": "aqs_daily_aqi",
+ *         "description": "Get daily AQI values for {scope}.",
+ *         "geographies": ["county", "state", "cbsa"],
+ *         "changeDates": true
+ *       }
+ *     ]
+ *   }
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { configDirectory } from './credentials.js';
+
+/**
+ * JSON schema of one tool argument
+ */
+export interface SchemaProperty {
+  type: string;
+  description: string;
+  enum?: string[];
+  /** Smallest allowed value of a number or integer */
+  minimum?: number;
+}
+
+/**
+ * Geographies AQS data services are offered for
+ */
+export type GeographyId = 'site' | 'county' | 'state' | 'box' | 'cbsa' | 'pqao' | 'ma';
+
+/**
+ * How a geography appears in endpoints, tool names, and arguments
+ */
+export interface Geography {
+  /** Endpoint suffix, e.g. "bySite" */
+  endpoint: string;
+  /** Tool name suffix, e.g. "by_site" */
+  tool: string;
+  /** What a tool covers, substituted for {scope} in descriptions */
+  scope: string;
+  /** Arguments identifying the location, all required */
+  properties: Record<string, SchemaProperty>;
+}
+
+/**
+ * One AQS data service and the tools generated for it
+ */
+export interface ServiceDefinition {
+  /** AQS service name, e.g. "dailyData" */
+  service: string;
+  /** Tool name prefix, e.g. "aqs_daily_summary" */
+  tool: string;
+  /** Tool description; {scope} is replaced by what the geography covers */
+  description: string;
+  geographies: GeographyId[];
+  /** Whether the service accepts cbdate/cedate */
+  changeDates?: boolean;
+  /** Name of the handler that requests and formats the data, default "rows" */
+  handler?: string;
+  /** Additional arguments, passed on to AQS */
+  properties?: Record<string, SchemaProperty>;
+  /** Additional required arguments */
+  required?: string[];
+}
+
+/**
+ * Geographies, in the order their tools are listed
+ */
+export const GEOGRAPHIES: Record<GeographyId, Geography> = {
+  site: {
+    endpoint: 'bySite',
+    tool: 'by_site',
+    scope: 'a specific monitoring site',
+    properties: {
+      state: {
+        type: 'string',
+        description: 'Two-digit FIPS state code (e.g., "06" for California, "36" for New York).',
+      },
+      county: {
+        type: 'string',
+        description: 'Three-digit FIPS county code (e.g., "037" for Los Angeles County).',
+      },
+      site: {
+        type: 'string',
+        description: 'Four-digit AQS site number within the county.',
+      },
+    },
+  },
+  county: {
+    endpoint: 'byCounty',
+    tool: 'by_county',
+    scope: 'all monitoring sites in a county',
+    properties: {
+      state: {
+        type: 'string',
+        description: 'Two-digit FIPS state code (e.g., "06" for California, "36" for New York).',
+      },
+      county: {
+        type: 'string',
+        description: 'Three-digit FIPS county code (e.g., "037" for Los Angeles County).',
+      },
+    },
+  },
+  state: {
+    endpoint: 'byState',
+    tool: 'by_state',
+    scope: 'all monitoring sites in a state',
+    properties: {
+      state: {
+        type: 'string',
+        description: 'Two-digit FIPS state code (e.g., "06" for California, "36" for New York).',
+      },
+    },
+  },
+  box: {
+    endpoint: 'byBox',
+    tool: 'by_box',
+    scope: 'all monitoring sites within a latitude/longitude bounding box',
+    properties: {
+      minlat: {
+        type: 'string',
+        description:
+          'Minimum latitude of the bounding box (southern boundary) in decimal degrees. Range: -90 to 90.',
+      },
+      maxlat: {
+        type: 'string',
+        description:
+          'Maximum latitude of the bounding box (northern boundary) in decimal degrees. Range: -90 to 90.',
+      },
+      minlon: {
+        type: 'string',
+        description:
+          'Minimum longitude of the bounding box (western boundary) in decimal degrees. Range: -180 to 180.',
+      },
+      maxlon: {
+        type: 'string',
+        description:
+          'Maximum longitude of the bounding box (eastern boundary) in decimal degrees. Range: -180 to 180.',
+      },
+    },
+  },
+  cbsa: {
+    endpoint: 'byCBSA',
+    tool: 'by_cbsa',
+    scope:
+      'all monitoring sites in a Core Based Statistical Area (CBSA), a metropolitan or ' +
+      'micropolitan area defined by the US Office of Management and Budget',
+    properties: {
+      cbsa: {
+        type: 'string',
+        description:
+          'Five-digit Core Based Statistical Area code (e.g., "31080" for Los Angeles-Long Beach-Anaheim).',
+      },
+    },
+  },
+  pqao: {
+    endpoint: 'byPQAO',
+    tool: 'by_pqao',
+    scope: 'all monitors assigned to a Primary Quality Assurance Organization (PQAO)',
+    properties: {
+      pqao: {
+        type: 'string',
+        description:
+          'Four-digit Primary Quality Assurance Organization code (use aqs_list_pqaos to look up codes).',
+      },
+    },
+  },
+  ma: {
+    endpoint: 'byMA',
+    tool: 'by_ma',
+    scope: 'all monitors operated by a Monitoring Agency (MA)',
+    properties: {
+      agency: {
+        type: 'string',
+        description:
+          'Four-digit Monitoring Agency code (use aqs_list_monitoring_agencies to look up codes).',
+      },
+    },
+  },
+};
+
+const ALL_GEOGRAPHIES: GeographyId[] = ['site', 'county', 'state', 'box', 'cbsa', 'pqao', 'ma'];
+
+// QA and transaction services are not offered by box or CBSA
+const QA_GEOGRAPHIES: GeographyId[] = ['site', 'county', 'state', 'pqao', 'ma'];
+
+const SAMPLE_WARNING =
+  'WARNING: Sample data can be very large, and EXTREMELY large for state, PQAO, and agency-wide ' +
+  'queries. Strongly recommend limiting date ranges to one week or one month.';
+
+const QA_PARAM_PROPERTY: SchemaProperty = {
+  type: 'string',
+  description:
+    'Parameter code (e.g., "88101" for PM2.5 Local Conditions, "44201" for Ozone, "42401" for SO2, "42602" for NO2, "42101" for CO). Up to 5 comma-separated codes allowed.',
+};
+
+/**
+ * Built-in services, in the order their tools are listed
+ */
+export const SERVICES: ServiceDefinition[] = [
+  {
+    service: 'monitors',
+    tool: 'aqs_monitors',
+    description:
+      'Get air quality monitors for {scope}. Returns detailed information about monitors ' +
+      'including location, operational dates, and measurement parameters. Monitors reported ' +
+      'by several years of a multi-year range are listed once.',
+    geographies: ALL_GEOGRAPHIES,
+    handler: 'monitors',
+  },
+  {
+    service: 'sampleData',
+    tool: 'aqs_sample_data',
+    description:
+      'Get raw sample data for {scope}. Returns individual sample measurements including ' +
+      `time, value, units, and quality flags. ${SAMPLE_WARNING} Use max_rows, output_file, ` +
+      'or summarize to stream large results.',
+    geographies: ALL_GEOGRAPHIES,
+    changeDates: true,
+    handler: 'sample',
+  },
+  {
+    service: 'dailyData',
+    tool: 'aqs_daily_summary',
+    description:
+      'Get daily summary air quality data for {scope}. Daily summaries include arithmetic ' +
+      'mean, maximum values, observation counts, and AQI values for each day.',
+    geographies: ALL_GEOGRAPHIES,
+    changeDates: true,
+  },
+  {
+    service: 'quarterlyData',
+    tool: 'aqs_quarterly_summary',
+    description:
+      'Retrieve quarterly summary data for {scope}. Quarterly summaries aggregate ' +
+      'measurements by calendar quarter, providing observation counts, arithmetic means, and ' +
+      'maximum values. Useful for analyzing seasonal patterns and completeness.',
+    geographies: ALL_GEOGRAPHIES,
+    changeDates: true,
+  },
+  {
+    service: 'annualData',
+    tool: 'aqs_annual_summary',
+    description:
+      'Get annual summary data for {scope}. Annual summaries include yearly statistics such ' +
+      'as arithmetic mean, standard deviation, maximum values, percentiles (10th through ' +
+      '99th), observation counts, data completeness metrics, and exceedance counts for ' +
+      'primary and secondary NAAQS standards.',
+    geographies: ALL_GEOGRAPHIES,
+    changeDates: true,
+    handler: 'annual',
+  },
+  {
+    service: 'qaBlanks',
+    tool: 'aqs_qa_blanks',
+    description:
+      'Get quality assurance blank data (field, trip, and lab blanks) for {scope}. Blanks are ' +
+      'unexposed PM2.5 filters weighed alongside routine samples to detect contamination ' +
+      'introduced during handling, transport, or laboratory analysis.',
+    geographies: QA_GEOGRAPHIES,
+    handler: 'qa-blanks',
+    properties: { param: QA_PARAM_PROPERTY },
+  },
+  {
+    service: 'qaCollocatedAssessments',
+    tool: 'aqs_qa_collocated_assessments',
+    description:
+      'Get collocated assessment data for {scope}. Each row pairs a primary sampler with a ' +
+      'collocated sampler measuring the same parameter on the same day. The response includes ' +
+      'a computed coefficient of variation (CV) for each primary/collocated pair for precision analysis; ' +
+      'for PM and lead, pairs below the 40 CFR Part 58 Appendix A concentration cutoff are left out.',
+    geographies: QA_GEOGRAPHIES,
+    handler: 'qa-collocated',
+    properties: { param: QA_PARAM_PROPERTY },
+  },
+  {
+    service: 'qaFlowRateVerifications',
+    tool: 'aqs_qa_flow_rate_verifications',
+    description:
+      'Get flow rate verification data for {scope}. Flow rate verifications are routine ' +
+      'one-point checks of a particulate sampler flow rate against a transfer standard. Each ' +
+      'row includes a derived percent difference and a flag when the check exceeds the ±4% ' +
+      '(audit standard) or ±5% (design flow) acceptance criteria; failures are listed in the summary.',
+    geographies: QA_GEOGRAPHIES,
+    handler: 'qa-flow-rate',
+    properties: { param: QA_PARAM_PROPERTY },
+  },
+  {
+    service: 'qaFlowRateAudits',
+    tool: 'aqs_qa_flow_rate_audits',
+    description:
+      'Get flow rate audit data for {scope}. Flow rate audits are semi-annual checks of a ' +
+      'particulate sampler flow rate using an independent standard. Each row includes a ' +
+      'derived percent difference and a flag when the audit exceeds the ±4% (audit standard) ' +
+      'or ±5% (design flow) acceptance criteria; failures are listed in the summary.',
+    geographies: QA_GEOGRAPHIES,
+    handler: 'qa-flow-rate',
+    properties: { param: QA_PARAM_PROPERTY },
+  },
+  {
+    service: 'qaOnePointQcRawData',
+    tool: 'aqs_qa_one_point_qc',
+    description:
+      'Get one-point quality control check data for gaseous monitors (O3, SO2, NO2, CO) for ' +
+      '{scope}. Each row includes the percent difference between the monitor response and ' +
+      'the audit concentration. The summary reports, per monitor, the check count, mean ' +
+      'percent difference, and the upper bound of the absolute percent difference used to assess bias.',
+    geographies: QA_GEOGRAPHIES,
+    handler: 'qa-one-point-qc',
+    properties: { param: QA_PARAM_PROPERTY },
+  },
+  {
+    service: 'qaAnnualPerformanceEvaluations',
+    tool: 'aqs_qa_annual_performance_evaluations',
+    description:
+      'Get annual performance evaluation data for gaseous monitors for {scope}. Annual ' +
+      'performance evaluations challenge a monitor with audit gas at several concentration ' +
+      'levels; each row reports the monitor response and the audit concentration for one level.',
+    geographies: QA_GEOGRAPHIES,
+    handler: 'qa-annual-performance-evaluations',
+    properties: { param: QA_PARAM_PROPERTY },
+  },
+  {
+    service: 'qaPepAudits',
+    tool: 'aqs_qa_pep_audits',
+    description:
+      'Get PM2.5 Performance Evaluation Program (PEP) audit data for {scope}. PEP audits ' +
+      'collocate an independent, portable FRM sampler with a routine sampler. Each row ' +
+      'includes the percent difference of the routine sampler from the PEP sampler, and the ' +
+      'summary reports the audit count and mean bias for each site and year.',
+    geographies: QA_GEOGRAPHIES,
+    handler: 'qa-pep',
+    properties: { param: QA_PARAM_PROPERTY },
+  },
+  {
+    service: 'transactionsSample',
+    tool: 'aqs_transactions_sample',
+    description:
+      'Get sample data for {scope} in AQS RD (raw data) transaction format, the format used ' +
+      'to submit and resubmit data to AQS. Set format to "transaction" to return the raw ' +
+      'pipe-delimited lines, or output_file to write them to a transaction file. ' +
+      SAMPLE_WARNING,
+    geographies: QA_GEOGRAPHIES,
+    handler: 'transactions-sample',
+  },
+  {
+    service: 'transactionsQaAnnualPerformanceEvaluations',
+    tool: 'aqs_transactions_qa_annual_performance_evaluations',
+    description:
+      'Get annual performance evaluation results for {scope} in AQS QA transaction format, ' +
+      'with monitor and audit concentrations for up to ten audit levels per assessment. Set ' +
+      'format to "transaction" to return the raw pipe-delimited lines, or output_file to ' +
+      'write them to a file.',
+    geographies: QA_GEOGRAPHIES,
+    handler: 'transactions-qa-annual-performance-evaluations',
+  },
+];
+
+/**
+ * Location of the user catalog file
+ *
+ * AQS_CATALOG_FILE overrides the default of catalog.json in the
+ * configuration directory.
+ */
+export function catalogFilePath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.AQS_CATALOG_FILE || join(configDirectory(env), 'catalog.json');
+}
+
+/**
+ * Check one service of a catalog file, returning it with defaults applied
+ */
+function validateService(value: unknown, index: number): ServiceDefinition {
+  const where = `services[${index}]`;
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`${where} must be an object.`);
+  }
+
+  const entry = value as Partial<ServiceDefinition>;
+  if (typeof entry.service !== 'string' || !/^[A-Za-z][A-Za-z0-9]*$/.test(entry.service)) {
+    throw new Error(`${where}.service must be an AQS service name such as "dailyData".`);
+  }
+  if (typeof entry.description !== 'string' || entry.description === '') {
+    throw new Error(`${where}.description is required.`);
+  }
+  if (!Array.isArray(entry.geographies) || entry.geographies.length === 0) {
+    throw new Error(
+      `${where}.geographies must list at least one of ${ALL_GEOGRAPHIES.join(', ')}.`
+    );
+  }
+  for (const geography of entry.geographies) {
+    if (!(geography in GEOGRAPHIES)) {
+      throw new Error(
+        `${where}.geographies contains unknown geography "${geography}". ` +
+        `Known geographies: ${ALL_GEOGRAPHIES.join(', ')}.`
+      );
+    }
+  }
+
+  const tool = entry.tool ?? `aqs_${entry.service.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`)}`;
+  if (typeof tool !== 'string' || !/^[a-z][a-z0-9_]*$/.test(tool)) {
+    throw new Error(`${where}.tool must be lower case letters, digits, and underscores. Got: ${tool}`);
+  }
+  if (entry.changeDates !== undefined && typeof entry.changeDates !== 'boolean') {
+    throw new Error(`${where}.changeDates must be true or false.`);
+  }
+  if (entry.handler !== undefined && typeof entry.handler !== 'string') {
+    throw new Error(`${where}.handler must be the name of a handler.`);
+  }
+
+  if (
+    entry.properties !== undefined &&
+    (typeof entry.properties !== 'object' || entry.properties === null || Array.isArray(entry.properties))
+  ) {
+    throw new Error(`${where}.properties must be an object.`);
+  }
+  const properties = entry.properties ?? {};
+  for (const [name, property] of Object.entries(properties)) {
+    if (typeof property?.type !== 'string' || typeof property.description !== 'string') {
+      throw new Error(`${where}.properties.${name} needs a type and a description.`);
+    }
+  }
+
+  if (entry.required !== undefined) {
+    if (!Array.isArray(entry.required) || !entry.required.every(name => typeof name === 'string')) {
+      throw new Error(`${where}.required must be a list of argument names.`);
+    }
+    for (const name of entry.required) {
+      if (!Object.hasOwn(properties, name)) {
+        throw new Error(`${where}.required names "${name}", which is not in ${where}.properties.`);
+      }
+    }
+  }
+
+  return { ...entry, tool } as ServiceDefinition;
+}
+
+/**
+ * Read the services of the user catalog file, or none when there is no file
+ */
+export function readCatalogFile(path: string = catalogFilePath()): ServiceDefinition[] {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  try {
+    const file = JSON.parse(text) as { services?: unknown };
+    if (!Array.isArray(file.services)) {
+      throw new Error('"services" must be an array.');
+    }
+    return file.services.map(validateService);
+  } catch (error) {
+    throw new Error(`Catalog file ${path} is invalid: ${(error as Error).message}`);
+  }
+}
@@ -2,60 +2,218 @@
  * AQS API Client with rate limiting
  *
  * Handles authentication, rate limiting (5 seconds between requests),
- * and response parsing for all EPA AQS API endpoints.
+ * retries of transient failures, and response parsing for all EPA AQS API
+ * endpoints. The base URL and fetch implementation are configurable so the
+ * server can target a mirror or a local stand-in, and tools can be
+ * exercised offline.
  */
 
-import type { AqsResponse } from './types.js';
+import { defaultCacheDirectory, ResponseCache } from './cache.js';
+import { defaultProfileCredentials, sessionCredentials } from './credentials.js';
+import {
+  AqsAuthError,
+  AqsCancelledError,
+  AqsError,
+  AqsNetworkError,
+  AqsNoDataError,
+  AqsServerError,
+  AqsValidationError,
+  errorCategory,
+  errorFromHeader,
+  errorFromStatus,
+} from './errors.js';
+import { logger } from './logger.js';
+import type { Logger } from './logger.js';
+import type { ProgressReporter } from './progress.js';
+import { RequestQueue } from './queue.js';
+import type { RequestPriority } from './queue.js';
+import { redact, registerSecret } from './redact.js';
+import { DataArrayParser } from './stream.js';
+import type { RowHandler, StreamOptions } from './stream.js';
+import type {
+  AqsHeader,
+  AqsResponse,
+  MultiYearResponse,
+  StreamResult,
+  YearResult,
+} from './types.js';
 
-const AQS_BASE_URL = 'https://aqs.epa.gov/data/api';
-const RATE_LIMIT_MS = 5000; // 5 seconds between requests
+const DEFAULT_BASE_URL = 'https://aqs.epa.gov/data/api';
+const DEFAULT_RATE_LIMIT_MS = 5000; // 5 seconds between requests
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_MS = 2000;
+const DEFAULT_TIMEOUT_MS = 300000; // 5 minutes per HTTP request
+const MAX_RETRY_DELAY_MS = 60000;
 
-let lastRequestTime = 0;
+/**
+ * Whether a multi-year request moves on to the next year after `error`
+ *
+ * Bad credentials or parameters fail every year alike, as does a local
+ * failure such as an unwritable output file or a failing row handler, and
+ * cancellation ends the call, so only per-year failures (no data, server
+ * and network errors) are recorded and skipped.
+ */
+function continuesAfter(error: unknown): boolean {
+  return !['cancelled', 'auth', 'validation', 'local'].includes(errorCategory(error));
+}
 
 /**
- * Sleep for specified milliseconds
+ * Sleep for specified milliseconds, rejecting early if the signal aborts
  */
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AqsCancelledError());
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new AqsCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
- * Enforce rate limiting between API requests
+ * Failure to read a response body, as opposed to a failure handling it
  */
-async function enforceRateLimit(): Promise<void> {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
+class BodyReadError extends Error {
+  constructor(cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = 'BodyReadError';
+  }
+}
 
-  if (timeSinceLastRequest < RATE_LIMIT_MS && lastRequestTime > 0) {
-    const waitTime = RATE_LIMIT_MS - timeSinceLastRequest;
-    console.error(`[AQS] Rate limiting: waiting ${waitTime}ms before next request`);
-    await sleep(waitTime);
+/**
+ * Read a response body as text in chunks, reporting the bytes received so far
+ *
+ * Stops reading and closes the connection when `onText` returns false or
+ * throws. Failures of the connection itself are thrown as BodyReadErrors.
+ */
+async function readText(
+  response: Response,
+  onText: (text: string) => boolean | void | Promise<boolean | void>,
+  onBytes?: (bytes: number) => void
+): Promise<void> {
+  if (!response.body) {
+    let text: string;
+    try {
+      text = await response.text();
+    } catch (error) {
+      throw new BodyReadError(error);
+    }
+    await onText(text);
+    return;
   }
 
-  lastRequestTime = Date.now();
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let bytes = 0;
+
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      throw new BodyReadError(error);
+    }
+    if (chunk.done) {
+      break;
+    }
+    bytes += chunk.value.byteLength;
+    onBytes?.(bytes);
+
+    let more: boolean | void;
+    try {
+      more = await onText(decoder.decode(chunk.value, { stream: true }));
+    } catch (error) {
+      await reader.cancel().catch(() => undefined);
+      throw error;
+    }
+    if (more === false) {
+      await reader.cancel();
+      return;
+    }
+  }
+
+  await onText(decoder.decode());
 }
 
 /**
- * Validate that begin and end dates are in the same calendar year
+ * Throw the typed error for a failed or empty AQS response header
  */
-export function validateDateRange(bdate: string, edate: string): void {
-  const beginYear = bdate.substring(0, 4);
-  const endYear = edate.substring(0, 4);
+function checkHeader(header: AqsHeader | undefined): void {
+  if (header?.status === 'Failed') {
+    throw errorFromHeader(header.error ?? []);
+  }
+  if (header && /no data/i.test(header.status)) {
+    throw new AqsNoDataError();
+  }
+}
 
-  if (beginYear !== endYear) {
-    throw new Error(
-      `Begin date (${bdate}) and end date (${edate}) must be in the same calendar year. ` +
-      `Got years ${beginYear} and ${endYear}.`
+/**
+ * Remove credentials from the request URL that AQS echoes in the header
+ */
+function redactHeaders(headers: AqsHeader[] | undefined): AqsHeader[] {
+  return (headers ?? []).map(h => (h.url ? { ...h, url: redact(h.url) } : h));
+}
+
+/**
+ * Queue priority of an endpoint: reference lookups before bulk data
+ */
+function priorityFor(endpoint: string): RequestPriority {
+  return endpoint.startsWith('list/') || endpoint.startsWith('metaData/') || endpoint === 'signup'
+    ? 'reference'
+    : 'data';
+}
+
+/**
+ * Validate that the begin date is not after the end date
+ *
+ * Ranges may span several calendar years; AqsClient.requestByYear splits
+ * them into the per-year requests the AQS API requires.
+ */
+export function validateDateRange(bdate: string, edate: string): void {
+  if (bdate > edate) {
+    throw new AqsValidationError(
+      `Begin date (${bdate}) must not be after end date (${edate}).`
     );
   }
 }
 
+/**
+ * Split a date range into calendar-year slices
+ */
+export function splitDateRangeByYear(
+  bdate: string,
+  edate: string
+): Array<{ year: number; bdate: string; edate: string }> {
+  const beginYear = parseInt(bdate.substring(0, 4), 10);
+  const endYear = parseInt(edate.substring(0, 4), 10);
+  const slices: Array<{ year: number; bdate: string; edate: string }> = [];
+
+  for (let year = beginYear; year <= endYear; year++) {
+    slices.push({
+      year,
+      bdate: year === beginYear ? bdate : `${year}0101`,
+      edate: year === endYear ? edate : `${year}1231`,
+    });
+  }
+
+  return slices;
+}
+
 /**
  * Validate date format (YYYYMMDD)
  */
 export function validateDateFormat(date: string, fieldName: string): void {
   if (!/^\d{8}$/.test(date)) {
-    throw new Error(
+    throw new AqsValidationError(
       `${fieldName} must be in YYYYMMDD format. Got: ${date}`
     );
   }
@@ -65,70 +223,813 @@ export function validateDateFormat(date: string, fieldName: string): void {
   const day = parseInt(date.substring(6, 8), 10);
 
   if (month < 1 || month > 12) {
-    throw new Error(`${fieldName} has invalid month: ${month}`);
+    throw new AqsValidationError(`${fieldName} has invalid month: ${month}`);
   }
 
   if (day < 1 || day > 31) {
-    throw new Error(`${fieldName} has invalid day: ${day}`);
+    throw new AqsValidationError(`${fieldName} has invalid day: ${day}`);
   }
 
   if (year < 1900 || year > 2100) {
-    throw new Error(`${fieldName} has invalid year: ${year}`);
+    throw new AqsValidationError(`${fieldName} has invalid year: ${year}`);
   }
 }
 
 /**
- * Build URL with query parameters
+ * Validate an optional change-date window and return it as request parameters
+ *
+ * cbdate/cedate restrict results to rows whose date_of_last_change falls
+ * within the window. Both dates must be provided together.
  */
-function buildUrl(endpoint: string, params: Record<string, string>): string {
-  const url = new URL(`${AQS_BASE_URL}/${endpoint}`);
+export function validateChangeDates(
+  cbdate?: string,
+  cedate?: string
+): Record<string, string> {
+  if (!cbdate && !cedate) {
+    return {};
+  }
+
+  if (!cbdate || !cedate) {
+    throw new AqsValidationError('cbdate and cedate must be provided together.');
+  }
+
+  validateDateFormat(cbdate, 'cbdate');
+  validateDateFormat(cedate, 'cedate');
 
-  for (const [key, value] of Object.entries(params)) {
-    if (value !== undefined && value !== null && value !== '') {
-      url.searchParams.append(key, value);
+  if (cbdate > cedate) {
+    throw new AqsValidationError(`cbdate (${cbdate}) must not be after cedate (${cedate}).`);
+  }
+
+  return { cbdate, cedate };
+}
+
+/**
+ * Summarize the change window of a query for output
+ */
+export function summarizeChanges(
+  data: Array<{ date_of_last_change?: string }>,
+  changeDates: Record<string, string>
+): Record<string, string | undefined> | undefined {
+  if (!changeDates.cbdate) {
+    return undefined;
+  }
+
+  let latest: string | undefined;
+  for (const row of data) {
+    if (row.date_of_last_change && (!latest || row.date_of_last_change > latest)) {
+      latest = row.date_of_last_change;
+    }
+  }
+
+  return {
+    cbdate: changeDates.cbdate,
+    cedate: changeDates.cedate,
+    latest_date_of_last_change: latest,
+  };
+}
+
+/**
+ * Per-year row counts and failures for output, when a request spanned several years
+ */
+export function summarizeYears(years: YearResult[]): YearResult[] | undefined {
+  return years.length > 1 ? years : undefined;
+}
+
+/**
+ * Validate bounding box coordinates (decimal degrees)
+ */
+export function validateBoundingBox(
+  minlat: string,
+  maxlat: string,
+  minlon: string,
+  maxlon: string
+): void {
+  const coordinates: Array<[string, string, number]> = [
+    ['minlat', minlat, 90],
+    ['maxlat', maxlat, 90],
+    ['minlon', minlon, 180],
+    ['maxlon', maxlon, 180],
+  ];
+
+  for (const [fieldName, value, limit] of coordinates) {
+    const parsed = Number(value);
+    if (value === undefined || value === '' || !Number.isFinite(parsed)) {
+      throw new AqsValidationError(`${fieldName} must be a number in decimal degrees. Got: ${value}`);
     }
+    if (parsed < -limit || parsed > limit) {
+      throw new AqsValidationError(`${fieldName} must be between -${limit} and ${limit}. Got: ${value}`);
+    }
+  }
+
+  if (Number(minlat) > Number(maxlat)) {
+    throw new AqsValidationError(`minlat (${minlat}) must be less than or equal to maxlat (${maxlat}).`);
   }
 
-  return url.toString();
+  if (Number(minlon) > Number(maxlon)) {
+    throw new AqsValidationError(`minlon (${minlon}) must be less than or equal to maxlon (${maxlon}).`);
+  }
+}
+
+/**
+ * Options for creating an AQS client
+ */
+export interface AqsClientOptions {
+  /** Base URL of the AQS API, without a trailing slash */
+  baseUrl?: string;
+  /** fetch implementation, defaults to the global fetch */
+  fetch?: typeof fetch;
+  /** Minimum spacing between requests in milliseconds */
+  rateLimitMs?: number;
+  /** Apply the spacing per API key rather than across all requests */
+  rateLimitPerKey?: boolean;
+  /** Retries after a rate-limit, server, or network failure */
+  maxRetries?: number;
+  /** Base delay of the exponential backoff in milliseconds */
+  retryBaseMs?: number;
+  /** Time limit of each HTTP request in milliseconds; 0 disables it */
+  timeoutMs?: number;
+  /** Response cache; requests always go to the API when omitted */
+  cache?: ResponseCache;
+}
+
+/**
+ * Per-call state of a tool invocation
+ */
+export interface CallContext {
+  /** Aborts when the MCP client cancels the tool call */
+  signal?: AbortSignal;
+  /** Receives progress when the MCP client asked for it */
+  progress?: ProgressReporter;
+  /** Logger carrying the call's request ID */
+  logger?: Logger;
+}
+
+/**
+ * A request in progress and the callers waiting for it
+ */
+interface InFlightRequest {
+  key: string;
+  promise: Promise<AqsResponse<unknown>>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Parse an optional non-negative integer environment variable
+ */
+function parseEnvInteger(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const raw = env[name];
+  if (!raw) {
+    return undefined;
+  }
+
+  // parseInt would read "5abc" as 5
+  if (!/^\d+$/.test(raw) || !Number.isSafeInteger(Number(raw))) {
+    throw new Error(`${name} must be a non-negative integer. Got: ${raw}`);
+  }
+
+  return Number(raw);
 }
 
 /**
- * Make an authenticated request to the AQS API
+ * Client for the EPA AQS API
+ *
+ * Each instance keeps its own request queue, so separate clients (for
+ * example one per test) do not delay each other.
  */
-export async function aqs<T>(
-  endpoint: string,
-  params: Record<string, string>
-): Promise<AqsResponse<T>> {
-  await enforceRateLimit();
+export class AqsClient {
+  readonly baseUrl: string;
+  readonly cache?: ResponseCache;
+  readonly queue: RequestQueue;
+  private readonly fetchImpl: typeof fetch;
+  private readonly maxRetries: number;
+  private readonly retryBaseMs: number;
+  private readonly timeoutMs: number;
+  // Requests in progress, keyed by endpoint and parameters
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  private context: CallContext = {};
 
-  const url = buildUrl(endpoint, params);
+  constructor(options: AqsClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.queue = new RequestQueue({
+      intervalMs: options.rateLimitMs ?? DEFAULT_RATE_LIMIT_MS,
+      perKey: options.rateLimitPerKey,
+    });
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryBaseMs = options.retryBaseMs ?? DEFAULT_RETRY_BASE_MS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.cache = options.cache;
+  }
 
-  // Log to stderr for debugging (won't interfere with stdio transport)
-  console.error(`[AQS] Requesting: ${endpoint}`);
+  /**
+   * A view of this client bound to one tool call
+   *
+   * The view shares the queue, cache, and in-flight requests of this
+   * client; only the call context differs.
+   */
+  withContext(context: CallContext): AqsClient {
+    const scoped = Object.create(this) as AqsClient;
+    scoped.context = context;
+    return scoped;
+  }
 
-  try {
-    const response = await fetch(url);
+  /**
+   * Create a client configured from environment variables
+   *
+   * AQS_BASE_URL overrides the API location, AQS_RATE_LIMIT_MS the spacing
+   * between requests (per API key if AQS_RATE_LIMIT_PER_KEY is set), and
+   * AQS_MAX_RETRIES / AQS_RETRY_BASE_MS the retry
+   * behaviour for transient failures. AQS_TIMEOUT_MS limits each HTTP
+   * request. Responses are cached under
+   * AQS_CACHE_DIR unless AQS_CACHE_DISABLED is set.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): AqsClient {
+    const hours = (name: string): number | undefined => {
+      const value = parseEnvInteger(env, name);
+      return value === undefined ? undefined : value * 60 * 60 * 1000;
+    };
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    const flag = (name: string): boolean =>
+      ['1', 'true', 'yes'].includes((env[name] ?? '').toLowerCase());
+    const cacheDisabled = flag('AQS_CACHE_DISABLED');
+
+    return new AqsClient({
+      baseUrl: env.AQS_BASE_URL || undefined,
+      rateLimitMs: parseEnvInteger(env, 'AQS_RATE_LIMIT_MS'),
+      rateLimitPerKey: flag('AQS_RATE_LIMIT_PER_KEY'),
+      maxRetries: parseEnvInteger(env, 'AQS_MAX_RETRIES'),
+      retryBaseMs: parseEnvInteger(env, 'AQS_RETRY_BASE_MS'),
+      timeoutMs: parseEnvInteger(env, 'AQS_TIMEOUT_MS'),
+      cache: cacheDisabled
+        ? undefined
+        : new ResponseCache({
+            directory: env.AQS_CACHE_DIR || defaultCacheDirectory(env),
+            certifiedTtlMs: hours('AQS_CACHE_CERTIFIED_TTL_HOURS'),
+            recentTtlMs: hours('AQS_CACHE_RECENT_TTL_HOURS'),
+            referenceTtlMs: hours('AQS_CACHE_REFERENCE_TTL_HOURS'),
+          }),
+    });
+  }
+
+  /**
+   * Logger of the current call, or the process-wide logger
+   */
+  private get log(): Logger {
+    return this.context.logger ?? logger;
+  }
+
+  /**
+   * Wait for a turn in the request queue and return the time waited
+   */
+  private async waitForTurn(
+    endpoint: string,
+    params: Record<string, string>,
+    signal: AbortSignal,
+    progress?: ProgressReporter
+  ): Promise<number> {
+    const priority = priorityFor(endpoint);
+    const { waiting } = this.queue.depth();
+
+    if (waiting > 0) {
+      this.log.debug('Queued behind waiting requests', { endpoint, priority, waiting });
+    }
+
+    const nextSlot = this.queue.nextSlotIn(params.key);
+    if (waiting > 0 || nextSlot > 0) {
+      progress?.queued(endpoint, waiting, nextSlot);
+    }
+
+    const queuedAt = Date.now();
+    await this.queue.acquire(priority, params.key, signal);
+
+    const waited = Date.now() - queuedAt;
+    if (waited > 0) {
+      this.log.debug('Rate limiting: waited for a request slot', { endpoint, queueMs: waited });
+    }
+    progress?.started(endpoint, waited);
+    return waited;
+  }
+
+  /**
+   * Backoff before retry number `attempt` (0-based): exponential, capped,
+   * with the upper half randomized so clients do not retry in lockstep
+   */
+  private retryDelay(attempt: number): number {
+    const ceiling = Math.min(MAX_RETRY_DELAY_MS, this.retryBaseMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  /**
+   * Build URL with query parameters
+   */
+  private buildUrl(endpoint: string, params: Record<string, string>): string {
+    const url = new URL(`${this.baseUrl}/${endpoint}`);
+
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== null && value !== '') {
+        url.searchParams.append(key, value);
+      }
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * Make an authenticated request to the AQS API
+   */
+  async request<T>(
+    endpoint: string,
+    params: Record<string, string>
+  ): Promise<AqsResponse<T>> {
+    this.context.progress?.expect(1);
+    return this.requestStep<T>(endpoint, params);
+  }
+
+  /**
+   * Make one request as a step of the current call
+   *
+   * Identical concurrent calls share one request and its response (or
+   * error), so parallel tool calls asking the same question wait for the
+   * request queue once. If the call context's signal aborts, this call
+   * rejects with AqsCancelledError; the shared request itself is aborted
+   * once every caller waiting for it has cancelled. Only the caller that
+   * started a shared request receives its queue and download progress.
+   */
+  private async requestStep<T>(
+    endpoint: string,
+    params: Record<string, string>
+  ): Promise<AqsResponse<T>> {
+    const { signal, progress } = this.context;
+    if (signal?.aborted) {
+      throw new AqsCancelledError();
+    }
+
+    const key = JSON.stringify([
+      endpoint,
+      Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== null && value !== '')
+        .sort(([a], [b]) => a.localeCompare(b)),
+    ]);
+
+    let entry = this.inFlight.get(key);
+    if (entry) {
+      this.log.debug('Joining in-flight request', { endpoint });
+      entry.waiters++;
+    } else {
+      const controller = new AbortController();
+      const promise = this.requestCached<T>(
+        endpoint,
+        params,
+        controller.signal,
+        progress
+      ).finally(() => {
+        this.forget(created);
+      });
+      const created: InFlightRequest = { key, promise, controller, waiters: 1 };
+      this.inFlight.set(key, created);
+      entry = created;
+    }
+
+    try {
+      return await this.waitFor(entry, signal) as AqsResponse<T>;
+    } finally {
+      progress?.completed(endpoint);
+    }
+  }
+
+  /**
+   * Wait for a shared request, leaving it early if the signal aborts
+   */
+  private waitFor(
+    entry: InFlightRequest,
+    signal?: AbortSignal
+  ): Promise<AqsResponse<unknown>> {
+    if (!signal) {
+      return entry.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        entry.waiters--;
+        if (entry.waiters === 0) {
+          // Nobody is waiting any more; later callers start afresh
+          this.forget(entry);
+          entry.controller.abort();
+        }
+        reject(new AqsCancelledError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      entry.promise
+        .finally(() => signal.removeEventListener('abort', onAbort))
+        .then(resolve, reject);
+    });
+  }
+
+  /**
+   * Remove a request from the in-flight map, unless it was already replaced
+   */
+  private forget(entry: InFlightRequest): void {
+    if (this.inFlight.get(entry.key) === entry) {
+      this.inFlight.delete(entry.key);
+    }
+  }
+
+  /**
+   * Answer a request from the cache, or from the API and cache the result
+   *
+   * Cached responses are returned without waiting in the request queue.
+   */
+  private async requestCached<T>(
+    endpoint: string,
+    params: Record<string, string>,
+    signal: AbortSignal,
+    progress?: ProgressReporter
+  ): Promise<AqsResponse<T>> {
+    const cached = await this.cache?.get<T>(endpoint, params, this.log);
+    if (cached) {
+      this.log.debug('Cache hit', { endpoint });
+      return cached;
+    }
+
+    const response = await this.requestWithRetry(
+      endpoint,
+      params,
+      signal,
+      progress,
+      body => this.readResponse<T>(endpoint, body, progress)
+    );
+    await this.cache?.set(endpoint, params, response, this.log);
+    return response;
+  }
+
+  /**
+   * Read a whole response body
+   */
+  private async readResponse<T>(
+    endpoint: string,
+    response: Response,
+    progress?: ProgressReporter
+  ): Promise<AqsResponse<T>> {
+    const totalBytes = Number(response.headers.get('content-length')) || undefined;
+    let text = '';
+    await readText(
+      response,
+      chunk => {
+        text += chunk;
+      },
+      progress && (bytes => progress.received(endpoint, bytes, totalBytes))
+    );
+    const data = JSON.parse(text) as AqsResponse<T>;
+
+    checkHeader(data.Header?.[0]);
+    return { ...data, Header: redactHeaders(data.Header) };
+  }
+
+  /**
+   * Read a response body row by row, passing Data rows to `onRow`
+   *
+   * The next chunk is read only once `ready` resolves.
+   */
+  private async readStream<T>(
+    endpoint: string,
+    response: Response,
+    onRow: RowHandler<T>,
+    progress?: ProgressReporter,
+    ready?: () => Promise<void> | void
+  ): Promise<AqsHeader[]> {
+    const totalBytes = Number(response.headers.get('content-length')) || undefined;
+    const parser = new DataArrayParser<T>(onRow);
+
+    await readText(
+      response,
+      async chunk => {
+        parser.write(chunk);
+        await ready?.();
+        return !parser.isStopped;
+      },
+      progress && (bytes => progress.received(endpoint, bytes, totalBytes))
+    );
+
+    const headers = (parser.end().Header ?? []) as AqsHeader[];
+    checkHeader(headers[0]);
+    return redactHeaders(headers);
+  }
+
+  /**
+   * Make a request, retrying transient failures
+   *
+   * Rate-limit, server, and network failures are retried with exponential
+   * backoff while `canRetry` allows it; other failures are thrown at once as
+   * typed AqsErrors.
+   */
+  private async requestWithRetry<R>(
+    endpoint: string,
+    params: Record<string, string>,
+    signal: AbortSignal,
+    progress: ProgressReporter | undefined,
+    read: (response: Response) => Promise<R>,
+    canRetry: () => boolean = () => true
+  ): Promise<R> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attemptRequest(endpoint, params, signal, progress, read);
+      } catch (error) {
+        if (
+          !(error instanceof AqsError) ||
+          !error.retryable ||
+          attempt >= this.maxRetries ||
+          !canRetry()
+        ) {
+          throw error;
+        }
+
+        const delay = this.retryDelay(attempt);
+        this.log.warn('Retrying after transient failure', {
+          endpoint,
+          category: error.category,
+          error: error.message,
+          delayMs: delay,
+          retry: attempt + 1,
+          maxRetries: this.maxRetries,
+        });
+        progress?.retrying(endpoint, delay, error.message);
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Make a single request, read its body with `read`, and classify any failure
+   *
+   * The request is aborted when `signal` aborts or the timeout expires.
+   */
+  private async attemptRequest<R>(
+    endpoint: string,
+    params: Record<string, string>,
+    signal: AbortSignal,
+    progress: ProgressReporter | undefined,
+    read: (response: Response) => Promise<R>
+  ): Promise<R> {
+    const queueMs = await this.waitForTurn(endpoint, params, signal, progress);
+
+    const url = this.buildUrl(endpoint, params);
+
+    this.log.debug('Requesting', { endpoint });
+    const startedAt = Date.now();
+    let status: number | undefined;
+
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort();
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    let timedOut = false;
+    const timer = this.timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, this.timeoutMs)
+      : undefined;
+
+    // An abort surfaces as a fetch or body error; report why it happened
+    const abortError = (): AqsError | undefined => {
+      if (signal.aborted) {
+        return new AqsCancelledError();
+      }
+      if (timedOut) {
+        return new AqsNetworkError(
+          `AQS API request timed out after ${this.timeoutMs}ms: ${endpoint}`
+        );
+      }
+      return undefined;
+    };
+
+    try {
+      let response: Response;
+      try {
+        response = await this.fetchImpl(url, { signal: controller.signal });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw abortError() ??
+          new AqsNetworkError(`AQS API request failed: ${message}`, { cause: error });
+      }
+
+      status = response.status;
+      if (!response.ok) {
+        throw errorFromStatus(response.status, response.statusText);
+      }
+
+      try {
+        const result = await read(response);
+        this.log.info('AQS request completed', {
+          endpoint,
+          status,
+          queueMs,
+          httpMs: Date.now() - startedAt,
+        });
+        return result;
+      } catch (error) {
+        // Whatever failed, nothing more is read from this response
+        controller.abort();
+        if (error instanceof SyntaxError) {
+          throw abortError() ??
+            new AqsServerError('AQS API returned a response that is not valid JSON.', {
+              status: response.status,
+              cause: error,
+            });
+        }
+        if (error instanceof BodyReadError) {
+          throw abortError() ??
+            new AqsNetworkError(`AQS API response was interrupted: ${error.message}`, {
+              cause: error.cause,
+            });
+        }
+        // Typed errors, and local failures of the row handler, as they are
+        throw error;
+      }
+    } catch (error) {
+      const category = errorCategory(error);
+      this.log[category === 'no_data' ? 'info' : 'warn']('AQS request failed', {
+        endpoint,
+        status,
+        category,
+        error,
+        queueMs,
+        httpMs: Date.now() - startedAt,
+      });
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
     }
+  }
+
+  /**
+   * Make an AQS request over a date range that may span several years
+   *
+   * The AQS API only accepts bdate and edate within one calendar year, so the
+   * range is split into one request per year. Requests run one after another
+   * through the request queue and their Data arrays are merged. A year with
+   * no data counts as zero rows, and a year that fails is recorded in
+   * `years` rather than failing the whole request, unless every year fails.
+   */
+  async requestByYear<T>(
+    endpoint: string,
+    params: Record<string, string>
+  ): Promise<MultiYearResponse<T>> {
+    const slices = splitDateRangeByYear(params.bdate, params.edate);
+    const years: YearResult[] = [];
+    const data: T[] = [];
+    let header: AqsResponse<T>['Header'] = [];
+    let lastError: unknown;
+    let noData = false;
+
+    this.context.progress?.expect(slices.length);
+
+    for (const slice of slices) {
+      try {
+        const response = await this.requestStep<T>(endpoint, {
+          ...params,
+          bdate: slice.bdate,
+          edate: slice.edate,
+        });
+        const rows = response.Data ?? [];
+
+        data.push(...rows);
+        if (header.length === 0) {
+          header = response.Header ?? [];
+        }
+        years.push({ ...slice, rows: rows.length });
+      } catch (error) {
+        // A single-year request keeps its original error, and a
+        // cancelled call or one AQS rejects stops at once
+        if (slices.length === 1 || !continuesAfter(error)) {
+          throw error;
+        }
+        if (error instanceof AqsNoDataError) {
+          noData = true;
+          years.push({ ...slice, rows: 0 });
+          continue;
+        }
+        lastError = error;
+        years.push({
+          ...slice,
+          rows: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (years.every(result => result.error)) {
+      throw lastError;
+    }
+
+    if (noData && data.length === 0 && !lastError) {
+      throw new AqsNoDataError();
+    }
+
+    return {
+      Header: header.map(h => ({ ...h, rows: data.length })),
+      Data: data,
+      years,
+    };
+  }
+
+  /**
+   * Stream the rows of a request over a date range that may span several years
+   *
+   * Like requestByYear, but Data rows are parsed as they arrive and passed
+   * to `onRow` instead of being collected, so memory use does not grow with
+   * the response size. Streamed responses are neither cached nor shared
+   * with concurrent calls. When `onRow` returns false the stream stops and
+   * the remaining years are skipped, as they are once `options.done` says
+   * the consumer has every row it needs. Only rows `onRow` accepts are
+   * counted. A year is retried only while none of its rows have been
+   * delivered.
+   */
+  async streamByYear<T>(
+    endpoint: string,
+    params: Record<string, string>,
+    onRow: RowHandler<T>,
+    options: StreamOptions = {}
+  ): Promise<StreamResult> {
+    const { progress } = this.context;
+    const signal = this.context.signal ?? new AbortController().signal;
+    const slices = splitDateRangeByYear(params.bdate, params.edate);
+    const years: YearResult[] = [];
+    let header: AqsHeader[] = [];
+    let rows = 0;
+    let stopped = false;
+    let lastError: unknown;
+    let noData = false;
+
+    progress?.expect(slices.length);
+
+    for (const slice of slices) {
+      if (stopped || options.done?.()) {
+        stopped = true;
+        break;
+      }
+
+      let sliceRows = 0;
+      const handleRow = (row: T): boolean | void => {
+        if (onRow(row) === false) {
+          stopped = true;
+          return false;
+        }
+        sliceRows++;
+      };
 
-    const data = await response.json() as AqsResponse<T>;
+      try {
+        const headers = await this.requestWithRetry(
+          endpoint,
+          { ...params, bdate: slice.bdate, edate: slice.edate },
+          signal,
+          progress,
+          response => this.readStream<T>(endpoint, response, handleRow, progress, options.ready),
+          () => sliceRows === 0
+        );
 
-    // Check for API-level errors
-    if (data.Header && data.Header.length > 0) {
-      const header = data.Header[0];
-      if (header.status === 'Failed') {
-        throw new Error(`AQS API Error: ${JSON.stringify(header)}`);
+        if (header.length === 0) {
+          header = headers;
+        }
+        years.push({ ...slice, rows: sliceRows });
+      } catch (error) {
+        if (slices.length === 1 || !continuesAfter(error)) {
+          throw error;
+        }
+        if (error instanceof AqsNoDataError) {
+          noData = true;
+          years.push({ ...slice, rows: 0 });
+          continue;
+        }
+        lastError = error;
+        years.push({
+          ...slice,
+          rows: sliceRows,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        rows += sliceRows;
+        progress?.completed(endpoint);
       }
     }
 
-    return data;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`AQS API request failed: ${error.message}`);
+    if (years.every(result => result.error)) {
+      throw lastError;
     }
-    throw error;
+
+    if (noData && rows === 0 && !lastError) {
+      throw new AqsNoDataError();
+    }
+
+    return {
+      Header: header.map(h => ({ ...h, rows })),
+      rows,
+      stopped,
+      years,
+    };
   }
 }
 
@@ -143,24 +1044,37 @@ export function getDefaultCredentials(): { email?: string; key?: string } {
 }
 
 /**
- * Resolve credentials - use provided values or fall back to environment variables
+ * Resolve credentials - use provided values or fall back, in order, to
+ * credentials stored for the session, environment variables, and the
+ * default profile of the credentials file
  */
 export function resolveCredentials(
   providedEmail?: string,
   providedKey?: string
 ): { email: string; key: string } {
+  const session = sessionCredentials();
   const defaults = getDefaultCredentials();
 
-  const email = providedEmail || defaults.email;
-  const key = providedKey || defaults.key;
+  let email = providedEmail || session?.email || defaults.email;
+  let key = providedKey || session?.key || defaults.key;
+
+  // Only read the credentials file when it is needed
+  if (!email || !key) {
+    const profile = defaultProfileCredentials();
+    email = email || profile.email;
+    key = key || profile.key;
+  }
 
   if (!email) {
-    throw new Error('Email is required. Provide it as a parameter or set AQS_EMAIL environment variable.');
+    throw new AqsAuthError('Email is required. Provide it as a parameter, select a profile, or set AQS_EMAIL environment variable.');
   }
 
   if (!key) {
-    throw new Error('API key is required. Provide it as a parameter or set AQS_API_KEY environment variable.');
+    throw new AqsAuthError('API key is required. Provide it as a parameter, select a profile, or set AQS_API_KEY environment variable.');
   }
 
+  registerSecret(email);
+  registerSecret(key);
+
   return { email, key };
 }
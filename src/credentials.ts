@@ -0,0 +1,250 @@
+/**
+ * Named credential profiles and session credentials
+ *
+ * Teams sharing one server across several AQS accounts keep their
+ * credentials in a local JSON file instead of pasting keys into chat:
+ *
+ *   {
+ *     "default": "team",
+ *     "profiles": {
+ *       "team": { "email": "team@example.org", "key": "..." },
+ *       "alice": { "email": "alice@example.org", "key": "..." }
+ *     }
+ *   }
+ *
+ * The file must be owned by the current user and not readable by anyone
+ * else. Credentials can also be stored for the session with the
+ * aqs_set_credentials tool; they live only in memory.
+ */
+
+import { readFileSync, statSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+import { AqsAuthError } from './errors.js';
+import { registerSecret } from './redact.js';
+
+/**
+ * AQS account credentials
+ */
+export interface Credentials {
+  email: string;
+  key: string;
+}
+
+/**
+ * Contents of the credentials file
+ */
+interface CredentialsFile {
+  default?: string;
+  profiles?: Record<string, Partial<Credentials>>;
+}
+
+// Credentials stored with aqs_set_credentials, by profile name
+const sessionProfiles = new Map<string, Credentials>();
+let sessionDefault: Credentials | undefined;
+
+/**
+ * Directory of the server's configuration files
+ *
+ * $XDG_CONFIG_HOME/aqs-mcp, or ~/.config/aqs-mcp when XDG_CONFIG_HOME is unset.
+ */
+export function configDirectory(env: NodeJS.ProcessEnv = process.env): string {
+  return join(env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'aqs-mcp');
+}
+
+/**
+ * Location of the credentials file
+ *
+ * AQS_CREDENTIALS_FILE overrides the default of credentials.json in the
+ * configuration directory.
+ */
+export function credentialsFilePath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.AQS_CREDENTIALS_FILE || join(configDirectory(env), 'credentials.json');
+}
+
+/**
+ * Read the credentials file, or undefined when there is none
+ *
+ * Read on every use, so edits take effect without a restart. Refuses a
+ * file that other users could read or that belongs to someone else.
+ */
+function readCredentialsFile(): CredentialsFile | undefined {
+  const path = credentialsFilePath();
+
+  let info;
+  try {
+    info = statSync(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  // Windows has no POSIX permission bits
+  if (process.platform !== 'win32') {
+    if ((info.mode & 0o077) !== 0) {
+      throw new AqsAuthError(
+        `Credentials file ${path} is accessible by other users ` +
+        `(mode ${(info.mode & 0o777).toString(8)}). Run: chmod 600 ${path}`
+      );
+    }
+    if (process.getuid && info.uid !== process.getuid()) {
+      throw new AqsAuthError(`Credentials file ${path} is not owned by the current user.`);
+    }
+  }
+
+  let file: CredentialsFile;
+  try {
+    file = JSON.parse(readFileSync(path, 'utf8')) as CredentialsFile;
+  } catch (error) {
+    throw new AqsAuthError(
+      `Credentials file ${path} is not valid JSON: ${(error as Error).message}`
+    );
+  }
+
+  for (const profile of Object.values(file.profiles ?? {})) {
+    registerSecret(profile.email);
+    registerSecret(profile.key);
+  }
+
+  return file;
+}
+
+/**
+ * Store credentials for the rest of the session
+ *
+ * Without a profile name they become the session default, used whenever a
+ * tool call names neither credentials nor a profile.
+ */
+export function setSessionCredentials(credentials: Credentials, profile?: string): void {
+  registerSecret(credentials.email);
+  registerSecret(credentials.key);
+
+  if (profile) {
+    sessionProfiles.set(profile, credentials);
+  } else {
+    sessionDefault = credentials;
+  }
+}
+
+/**
+ * Forget session credentials; returns whether any were stored
+ */
+export function clearSessionCredentials(profile?: string): boolean {
+  if (profile) {
+    return sessionProfiles.delete(profile);
+  }
+  const had = sessionDefault !== undefined;
+  sessionDefault = undefined;
+  return had;
+}
+
+/**
+ * Default credentials stored for the session, if any
+ */
+export function sessionCredentials(): Credentials | undefined {
+  return sessionDefault;
+}
+
+/**
+ * Credentials of the file's default profile, if it names one
+ */
+export function defaultProfileCredentials(): Partial<Credentials> {
+  const file = readCredentialsFile();
+  if (!file?.default) {
+    return {};
+  }
+  return profileCredentials(file.default);
+}
+
+/**
+ * Names of all known profiles, from the session and the credentials file
+ */
+export function profileNames(): string[] {
+  const names = new Set(sessionProfiles.keys());
+  for (const name of Object.keys(readCredentialsFile()?.profiles ?? {})) {
+    names.add(name);
+  }
+  return [...names].sort();
+}
+
+/**
+ * Credentials of a named profile; session profiles shadow file profiles
+ */
+export function profileCredentials(name: string): Partial<Credentials> {
+  const session = sessionProfiles.get(name);
+  if (session) {
+    return session;
+  }
+
+  const profile = readCredentialsFile()?.profiles?.[name];
+  if (!profile) {
+    const known = profileNames();
+    throw new AqsAuthError(
+      `Unknown credential profile "${name}". ` +
+      (known.length > 0
+        ? `Known profiles: ${known.join(', ')}.`
+        : `No profiles are defined; add them to ${credentialsFilePath()} or use aqs_set_credentials.`)
+    );
+  }
+
+  return profile;
+}
+
+/**
+ * Schema of the email and key arguments of every tool that takes AQS credentials
+ */
+export const credentialProperties = {
+  email: {
+    type: 'string',
+    description:
+      'Email address registered with the AQS API. Optional if AQS_EMAIL environment variable is set.',
+  },
+  key: {
+    type: 'string',
+    description:
+      'API key for AQS access. Optional if AQS_API_KEY environment variable is set.',
+  },
+};
+
+/**
+ * Schema of the `profile` argument accepted by every tool that takes credentials
+ */
+const profileProperty = {
+  type: 'string',
+  description:
+    'Named credential profile to use instead of email/key (from the credentials file or aqs_set_credentials).',
+};
+
+/**
+ * Add the `profile` argument to the input schema of tools that take AQS credentials
+ */
+export function withProfileArgument<S extends { properties: Record<string, unknown> }>(inputSchema: S): S {
+  if (!('key' in inputSchema.properties)) {
+    return inputSchema;
+  }
+  return {
+    ...inputSchema,
+    properties: { ...inputSchema.properties, profile: profileProperty },
+  };
+}
+
+/**
+ * Fill in email and key from the named profile, if the call names one
+ *
+ * Explicit email and key arguments take precedence over the profile.
+ */
+export function applyProfile(args: Record<string, unknown> = {}): Record<string, unknown> {
+  if (typeof args.profile !== 'string' || args.profile === '') {
+    return args;
+  }
+
+  const credentials = profileCredentials(args.profile);
+  return {
+    ...args,
+    email: args.email || credentials.email,
+    key: args.key || credentials.key,
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * Typed errors for EPA AQS API failures
+ *
+ * Every failure is mapped to a category so tools can tell the user whether
+ * their credentials are wrong, their request is invalid, or EPA is down.
+ * Rate-limit, server, and network errors are transient and retried by the
+ * client.
+ */
+
+/**
+ * Failure categories reported to MCP clients
+ */
+export type AqsErrorCategory =
+  | 'auth'
+  | 'validation'
+  | 'no_data'
+  | 'rate_limit'
+  | 'server'
+  | 'network'
+  | 'cancelled'
+  | 'local';
+
+/**
+ * Base class for all AQS errors
+ */
+export class AqsError extends Error {
+  readonly category: AqsErrorCategory;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(
+    message: string,
+    category: AqsErrorCategory,
+    options: { retryable?: boolean; status?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'AqsError';
+    this.category = category;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+  }
+}
+
+/**
+ * Missing, unregistered, or rejected credentials
+ */
+export class AqsAuthError extends AqsError {
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message, 'auth', options);
+    this.name = 'AqsAuthError';
+  }
+}
+
+/**
+ * Request parameters rejected locally or by the AQS API
+ */
+export class AqsValidationError extends AqsError {
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message, 'validation', options);
+    this.name = 'AqsValidationError';
+  }
+}
+
+/**
+ * The request was valid but no data matched it
+ */
+export class AqsNoDataError extends AqsError {
+  constructor(message = 'No data matched your selection.') {
+    super(message, 'no_data');
+    this.name = 'AqsNoDataError';
+  }
+}
+
+/**
+ * The AQS API is throttling requests (HTTP 429)
+ */
+export class AqsRateLimitError extends AqsError {
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message, 'rate_limit', { ...options, retryable: true });
+    this.name = 'AqsRateLimitError';
+  }
+}
+
+/**
+ * The AQS API failed or returned an unreadable response (HTTP 5xx)
+ */
+export class AqsServerError extends AqsError {
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message, 'server', { ...options, retryable: true });
+    this.name = 'AqsServerError';
+  }
+}
+
+/**
+ * The AQS API could not be reached (DNS, connection, or timeout)
+ */
+export class AqsNetworkError extends AqsError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, 'network', { ...options, retryable: true });
+    this.name = 'AqsNetworkError';
+  }
+}
+
+/**
+ * The caller cancelled the request before it completed
+ */
+export class AqsCancelledError extends AqsError {
+  constructor(message = 'AQS API request was cancelled.') {
+    super(message, 'cancelled');
+    this.name = 'AqsCancelledError';
+  }
+}
+
+/**
+ * Failure on this machine rather than at AQS, e.g. writing an output file
+ */
+export class AqsLocalError extends AqsError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, 'local', options);
+    this.name = 'AqsLocalError';
+  }
+}
+
+/**
+ * Map an HTTP status code to a typed error
+ */
+export function errorFromStatus(status: number, statusText: string): AqsError {
+  const message = `AQS API request failed: HTTP ${status}${statusText ? ` ${statusText}` : ''}`;
+
+  if (status === 401 || status === 403) {
+    return new AqsAuthError(message, { status });
+  }
+  if (status === 429) {
+    return new AqsRateLimitError(message, { status });
+  }
+  if (status >= 500) {
+    return new AqsServerError(message, { status });
+  }
+  return new AqsValidationError(message, { status });
+}
+
+/**
+ * Map the error text of a failed AQS response header to a typed error
+ *
+ * AQS reports bad credentials and bad parameters the same way, with
+ * status "Failed", so the error text decides the category.
+ */
+export function errorFromHeader(errors: string[]): AqsError {
+  const detail = errors.length > 0 ? errors.join('; ') : 'unknown error';
+  const message = `AQS API Error: ${detail}`;
+
+  if (/\b(email|key|account|authenticat|credential)/i.test(detail)) {
+    return new AqsAuthError(message);
+  }
+  return new AqsValidationError(message);
+}
+
+/**
+ * What the user can do about each category of failure
+ */
+const CATEGORY_HINTS: Record<AqsErrorCategory, string> = {
+  auth: 'Check the email and API key, the credential profile, or the AQS_EMAIL and AQS_API_KEY environment variables. Use aqs_signup to request a key.',
+  validation: 'Check the request parameters (codes, dates, and coordinates).',
+  no_data: 'The request was valid, but AQS has no data for it. Try a wider date range, another parameter, or a different location.',
+  rate_limit: 'The AQS API is throttling requests. Wait a minute and try again.',
+  server: 'The EPA AQS service appears to be having problems. Try again later, or check availability with aqs_is_available.',
+  network: 'The AQS API could not be reached or did not answer in time. Check the network connection and AQS_BASE_URL, or raise AQS_TIMEOUT_MS for very large requests.',
+  cancelled: 'The request was cancelled before it completed.',
+  local: 'The server failed locally, not at AQS. Check output file paths and their permissions.',
+};
+
+/**
+ * Category of any thrown value; untyped errors count as local failures
+ */
+export function errorCategory(error: unknown): AqsErrorCategory {
+  return error instanceof AqsError ? error.category : 'local';
+}
+
+/**
+ * Describe an error for tool output, including its category and a hint
+ */
+export function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const category = errorCategory(error);
+  return `Error [${category}]: ${message}\n${CATEGORY_HINTS[category]}`;
+}
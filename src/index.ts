@@ -6,6 +6,8 @@
  * air quality data, monitor information, and quality assurance data.
  */
 
+import { randomUUID } from 'node:crypto';
+
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
@@ -13,33 +15,48 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
+import { AqsClient, getDefaultCredentials } from './client.js';
+import { applyProfile, withProfileArgument } from './credentials.js';
+import { errorCategory } from './errors.js';
+import { Logger, logger, setLogger } from './logger.js';
+import { ProgressReporter } from './progress.js';
+import { redact, redactResult, registerSecret } from './redact.js';
+
 // Import all tool modules
+import { SERVICES, readCatalogFile } from './catalog.js';
 import { signupTools } from './tools/signup.js';
 import { listTools } from './tools/lists.js';
-import { monitorTools } from './tools/monitors.js';
-import { sampleDataTools } from './tools/samples.js';
-import { dailyTools } from './tools/daily.js';
-import { quarterlyTools } from './tools/quarterly.js';
-import { annualTools } from './tools/annual.js';
-
-// Combine all tools
-const allTools = [
-  ...signupTools,
-  ...listTools,
-  ...monitorTools,
-  ...sampleDataTools,
-  ...dailyTools,
-  ...quarterlyTools,
-  ...annualTools,
-];
-
-// Create a map for quick tool lookup
-const toolMap = new Map(allTools.map(tool => [tool.name, tool]));
+import { catalogTools } from './tools/catalog.js';
+import { cacheTools } from './tools/cache.js';
+import { queueTools } from './tools/queue.js';
+import { errorResult } from './tools/tool.js';
+import type { McpTool } from './tools/tool.js';
+import { validateArguments, withArgumentPatterns } from './validation.js';
+
+const defaultCredentials = getDefaultCredentials();
+registerSecret(defaultCredentials.email);
+registerSecret(defaultCredentials.key);
 
 /**
  * Create and configure the MCP server
  */
 async function main(): Promise<void> {
+  setLogger(Logger.fromEnv());
+
+  // Shared AQS client, configured from AQS_* environment variables
+  const client = AqsClient.fromEnv();
+
+  // Data service tools are generated from the built-in catalog plus the
+  // services of the user catalog file
+  const allTools: McpTool[] = [
+    ...signupTools,
+    ...listTools,
+    ...catalogTools([...SERVICES, ...readCatalogFile()]),
+    ...cacheTools,
+    ...queueTools,
+  ];
+  const toolMap = new Map(allTools.map(tool => [tool.name, tool]));
+
   const server = new Server(
     {
       name: 'aqs-mcp',
@@ -58,13 +75,13 @@ async function main(): Promise<void> {
       tools: allTools.map(tool => ({
         name: tool.name,
         description: tool.description,
-        inputSchema: tool.inputSchema,
+        inputSchema: withArgumentPatterns(withProfileArgument(tool.inputSchema)),
       })),
     };
   });
 
   // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
 
     const tool = toolMap.get(name);
@@ -80,19 +97,41 @@ async function main(): Promise<void> {
       };
     }
 
+    // Every line logged for this call carries its request ID
+    const requestId = randomUUID().slice(0, 8);
+    const log = logger.child({ requestId, tool: name });
+    const startedAt = Date.now();
+    log.info('Tool call started', { mcpRequestId: extra.requestId });
+
     try {
-      return await tool.handler(args as Record<string, string>);
+      // The signal aborts when the MCP client cancels this call; progress is
+      // only reported when the client supplied a progress token
+      const progressToken = request.params._meta?.progressToken;
+      const progress = progressToken === undefined
+        ? undefined
+        : new ProgressReporter(update =>
+            extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, ...update, message: redact(update.message) },
+            })
+          );
+      const callClient = client.withContext({ signal: extra.signal, progress, logger: log });
+      // Reject malformed arguments before they reach EPA; codes missing
+      // their leading zeros are padded
+      const validArgs = validateArguments(name, withProfileArgument(tool.inputSchema), args);
+      const callArgs = applyProfile(validArgs);
+      const result = redactResult(await tool.handler(callArgs, callClient));
+      log.info('Tool call finished', { durationMs: Date.now() - startedAt });
+      return result;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Error: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
+      const category = errorCategory(error);
+      log.info('Tool call finished', {
+        durationMs: Date.now() - startedAt,
+        isError: category !== 'no_data',
+        category,
+      });
+
+      return redactResult(errorResult(error));
     }
   });
 
@@ -100,11 +139,11 @@ async function main(): Promise<void> {
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
-  console.error(`[AQS MCP] Server started with ${allTools.length} tools`);
+  logger.info('Server started', { tools: allTools.length, logLevel: logger.level });
 }
 
 // Run the server
 main().catch((error) => {
-  console.error('[AQS MCP] Fatal error:', error);
+  logger.error('Fatal error', { error });
   process.exit(1);
 });
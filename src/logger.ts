@@ -0,0 +1,153 @@
+/**
+ * Leveled, structured logging to stderr
+ *
+ * stdout carries the MCP protocol, so all logs go to stderr. AQS_LOG_LEVEL
+ * selects the least severe level written (error, warn, info, debug;
+ * default info) and AQS_LOG_FORMAT=json switches from readable text lines
+ * to one JSON object per line. Every line passes through redact(), and
+ * loggers created per tool call carry its request ID, so a slow session
+ * can be followed call by call.
+ */
+
+import { redact } from './redact.js';
+
+/**
+ * Log levels, most severe first
+ */
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  error: 0,
+  warn: 1,
+  info: 2,
+  debug: 3,
+};
+
+/**
+ * Structured fields attached to a log line
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Options for creating a logger
+ */
+export interface LoggerOptions {
+  level?: LogLevel;
+  json?: boolean;
+  /** Destination of formatted lines, defaults to stderr */
+  write?: (line: string) => void;
+}
+
+/**
+ * Format a field value for text output
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return /[\s"=]/.test(value) ? JSON.stringify(value) : value;
+  }
+  if (value instanceof Error) {
+    return JSON.stringify(value.message);
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Logger writing leveled lines with bound fields
+ */
+export class Logger {
+  readonly level: LogLevel;
+  private readonly json: boolean;
+  private readonly write: (line: string) => void;
+  private readonly fields: LogFields;
+
+  constructor(options: LoggerOptions = {}, fields: LogFields = {}) {
+    this.level = options.level ?? 'info';
+    this.json = options.json ?? false;
+    this.write = options.write ?? (line => process.stderr.write(line));
+    this.fields = fields;
+  }
+
+  /**
+   * Create a logger configured from AQS_LOG_LEVEL and AQS_LOG_FORMAT
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): Logger {
+    const level = (env.AQS_LOG_LEVEL || 'info').toLowerCase();
+    if (!(level in LEVEL_ORDER)) {
+      throw new Error(
+        `AQS_LOG_LEVEL must be one of ${Object.keys(LEVEL_ORDER).join(', ')}. Got: ${env.AQS_LOG_LEVEL}`
+      );
+    }
+
+    return new Logger({
+      level: level as LogLevel,
+      json: (env.AQS_LOG_FORMAT || '').toLowerCase() === 'json',
+    });
+  }
+
+  /**
+   * A logger that adds `fields` to every line
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(
+      { level: this.level, json: this.json, write: this.write },
+      { ...this.fields, ...fields }
+    );
+  }
+
+  /**
+   * Whether lines of `level` are written
+   */
+  enabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] <= LEVEL_ORDER[this.level];
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.enabled(level)) {
+      return;
+    }
+
+    const all = { ...this.fields, ...fields };
+    let line: string;
+
+    if (this.json) {
+      line = JSON.stringify({ time: new Date().toISOString(), level, message, ...all }, (_key, value) =>
+        value instanceof Error ? value.message : value
+      );
+    } else {
+      const pairs = Object.entries(all)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${formatValue(value)}`);
+      line = [`[AQS] ${level.toUpperCase()} ${message}`, ...pairs].join(' ');
+    }
+
+    this.write(`${redact(line)}\n`);
+  }
+}
+
+/**
+ * Process-wide logger, used where no per-call logger is available
+ */
+export let logger = new Logger();
+
+/**
+ * Replace the process-wide logger (e.g. with Logger.fromEnv() at startup)
+ */
+export function setLogger(next: Logger): void {
+  logger = next;
+}
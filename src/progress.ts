@@ -0,0 +1,129 @@
+/**
+ * Progress reporting for long-running tool calls
+ *
+ * A tool call can wait in the request queue, download a large response, and
+ * make one request per calendar year. When the MCP client supplies a
+ * progress token, the client reports each of these as an MCP progress
+ * notification so the call does not appear frozen.
+ */
+
+// Minimum spacing between byte-count notifications
+const BYTES_INTERVAL_MS = 500;
+
+/**
+ * Sends one progress notification
+ */
+export type ProgressSender = (progress: {
+  progress: number;
+  total?: number;
+  message: string;
+}) => Promise<void>;
+
+/**
+ * Format a byte count for progress messages
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Progress of one tool call, counted in AQS requests ("steps")
+ *
+ * Progress is the number of finished steps plus a fraction for the step
+ * underway, so it always increases as MCP requires, even when a step is
+ * added after others have finished.
+ */
+export class ProgressReporter {
+  private readonly send: ProgressSender;
+  private total = 0;
+  private done = 0;
+  private last = 0;
+  private lastBytesAt = 0;
+
+  constructor(send: ProgressSender) {
+    this.send = send;
+  }
+
+  /**
+   * Announce requests that this call will make
+   */
+  expect(steps: number): void {
+    this.total += steps;
+  }
+
+  /**
+   * Report that a request must wait in the request queue
+   */
+  queued(endpoint: string, ahead: number, nextSlotMs: number): void {
+    const behind = ahead > 0 ? ` behind ${ahead} request(s)` : '';
+    const slot = nextSlotMs > 0 ? `, next slot in ${Math.ceil(nextSlotMs / 1000)}s` : '';
+    this.notify(0, `${this.stepLabel()}: ${endpoint} waiting in the request queue${behind}${slot}`);
+  }
+
+  /**
+   * Report a wait before retrying a failed request
+   */
+  retrying(endpoint: string, delayMs: number, reason: string): void {
+    this.notify(0, `${this.stepLabel()}: retrying ${endpoint} in ${Math.round(delayMs / 1000)}s (${reason})`);
+  }
+
+  /**
+   * Report that a request has been sent
+   */
+  started(endpoint: string, waitedMs: number): void {
+    const waited = waitedMs >= 1000 ? ` after ${Math.round(waitedMs / 1000)}s in the queue` : '';
+    this.notify(0.1, `${this.stepLabel()}: requesting ${endpoint}${waited}`);
+  }
+
+  /**
+   * Report bytes received so far, at most every BYTES_INTERVAL_MS
+   */
+  received(endpoint: string, bytes: number, totalBytes?: number): void {
+    const now = Date.now();
+    if (now - this.lastBytesAt < BYTES_INTERVAL_MS) {
+      return;
+    }
+    this.lastBytesAt = now;
+
+    // Without a Content-Length, approach the end of the step asymptotically
+    const fraction = totalBytes
+      ? 0.1 + 0.8 * Math.min(1, bytes / totalBytes)
+      : 0.1 + 0.8 * (bytes / (bytes + 1024 * 1024));
+    const of = totalBytes ? ` of ${formatBytes(totalBytes)}` : '';
+    this.notify(fraction, `${this.stepLabel()}: received ${formatBytes(bytes)}${of} from ${endpoint}`);
+  }
+
+  /**
+   * Report a finished step
+   */
+  completed(endpoint: string): void {
+    this.done++;
+    this.notify(0, `Finished step ${this.done} of ${Math.max(this.total, this.done)}: ${endpoint}`);
+  }
+
+  /**
+   * "Step N of M" for the step underway
+   */
+  private stepLabel(): string {
+    const step = this.done + 1;
+    return `Step ${step} of ${Math.max(this.total, step)}`;
+  }
+
+  /**
+   * Send a notification; failures to notify never fail the call
+   */
+  private notify(fraction: number, message: string): void {
+    // Progress must strictly increase between notifications
+    const progress = Math.max(this.done + fraction, this.last + 0.001);
+    this.last = progress;
+
+    const total = this.total > 0 ? Math.max(this.total, progress) : undefined;
+    this.send({ progress, total, message }).catch(() => undefined);
+  }
+}
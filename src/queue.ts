@@ -0,0 +1,160 @@
+/**
+ * Priority queue enforcing the spacing between AQS requests
+ *
+ * Callers wait in the queue until they may start their request. Requests
+ * start at least `intervalMs` apart; among waiting callers, reference
+ * lookups go before bulk data, then first come, first served. Optionally
+ * the spacing applies per API key, so several users sharing one server do
+ * not slow each other down.
+ */
+
+import { AqsCancelledError } from './errors.js';
+
+/**
+ * Request priorities, in the order they are served
+ */
+export type RequestPriority = 'reference' | 'data';
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  reference: 0,
+  data: 1,
+};
+
+/**
+ * Options for creating a request queue
+ */
+export interface RequestQueueOptions {
+  /** Minimum spacing between request starts in milliseconds */
+  intervalMs: number;
+  /** Apply the spacing per API key instead of across all requests */
+  perKey?: boolean;
+}
+
+/**
+ * Number of callers waiting to start a request
+ */
+export interface QueueDepth {
+  waiting: number;
+  byPriority: Record<RequestPriority, number>;
+}
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  group: string;
+  sequence: number;
+  start: () => void;
+}
+
+/**
+ * Queue granting request starts in priority order with fixed spacing
+ */
+export class RequestQueue {
+  readonly intervalMs: number;
+  readonly perKey: boolean;
+  private readonly waiting: QueuedRequest[] = [];
+  // Start time of the latest request per spacing group
+  private readonly lastStart = new Map<string, number>();
+  private sequence = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: RequestQueueOptions) {
+    this.intervalMs = options.intervalMs;
+    this.perKey = options.perKey ?? false;
+  }
+
+  /**
+   * Wait until a request may start
+   *
+   * `key` identifies the API key, used only when spacing is per key. When
+   * `signal` aborts, the caller leaves the queue and the wait rejects with
+   * AqsCancelledError.
+   */
+  acquire(priority: RequestPriority, key?: string, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AqsCancelledError());
+        return;
+      }
+
+      const onAbort = (): void => {
+        const index = this.waiting.indexOf(entry);
+        if (index !== -1) {
+          this.waiting.splice(index, 1);
+          this.dispatch();
+        }
+        reject(new AqsCancelledError());
+      };
+
+      const entry: QueuedRequest = {
+        priority,
+        group: this.perKey ? key ?? '' : '',
+        sequence: this.sequence++,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Keep the list sorted by priority, then arrival
+      const index = this.waiting.findIndex(
+        other => PRIORITY_ORDER[other.priority] > PRIORITY_ORDER[priority]
+      );
+      this.waiting.splice(index === -1 ? this.waiting.length : index, 0, entry);
+
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Number of callers waiting, overall and per priority
+   */
+  depth(): QueueDepth {
+    const byPriority: Record<RequestPriority, number> = { reference: 0, data: 0 };
+    for (const entry of this.waiting) {
+      byPriority[entry.priority]++;
+    }
+    return { waiting: this.waiting.length, byPriority };
+  }
+
+  /**
+   * Milliseconds until the next request for `key` may start, ignoring
+   * callers already waiting
+   */
+  nextSlotIn(key?: string): number {
+    const last = this.lastStart.get(this.perKey ? key ?? '' : '');
+    return last === undefined ? 0 : Math.max(0, last + this.intervalMs - Date.now());
+  }
+
+  /**
+   * Start every waiting request whose group is ready, then sleep until the
+   * next group becomes ready
+   */
+  private dispatch(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const now = Date.now();
+    let nextReady = Infinity;
+
+    for (let i = 0; i < this.waiting.length; i++) {
+      const entry = this.waiting[i];
+      const last = this.lastStart.get(entry.group);
+      const readyAt = last === undefined ? now : last + this.intervalMs;
+
+      if (readyAt <= now) {
+        this.waiting.splice(i--, 1);
+        this.lastStart.set(entry.group, now);
+        entry.start();
+      } else {
+        nextReady = Math.min(nextReady, readyAt);
+      }
+    }
+
+    if (this.waiting.length > 0 && Number.isFinite(nextReady)) {
+      this.timer = setTimeout(() => this.dispatch(), nextReady - now);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Credential redaction for tool output and logs
+ *
+ * AQS authenticates with email and key query parameters, so credentials
+ * end up in request URLs, response headers, and error messages. Every
+ * credential the server resolves is registered here, and all tool results
+ * and stderr logs pass through redact() before they leave the process.
+ */
+
+const REDACTED = '[REDACTED]';
+
+// Shorter values are too likely to match ordinary text
+const MIN_SECRET_LENGTH = 4;
+
+const secrets = new Set<string>();
+
+/**
+ * Register a credential value that must never be shown
+ */
+export function registerSecret(value: string | undefined): void {
+  if (value && value.length >= MIN_SECRET_LENGTH) {
+    secrets.add(value);
+  }
+}
+
+/**
+ * Remove credentials from a piece of text
+ *
+ * Redacts email and key query parameters in any URL, plus every registered
+ * credential in plain and URL-encoded form.
+ */
+export function redact(text: string): string {
+  let result = text.replace(/([?&](?:email|key)=)[^&\s"'<>]*/gi, `$1${REDACTED}`);
+
+  // Longest first, so a credential containing another is replaced whole
+  const ordered = [...secrets].sort((a, b) => b.length - a.length);
+  for (const secret of ordered) {
+    for (const form of new Set([secret, encodeURIComponent(secret)])) {
+      result = result.split(form).join(REDACTED);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Redact the text content of a tool result
+ */
+export function redactResult<R extends { content: Array<{ type: string; text?: string }> }>(
+  result: R
+): R {
+  return {
+    ...result,
+    content: result.content.map(item =>
+      typeof item.text === 'string' ? { ...item, text: redact(item.text) } : item
+    ),
+  };
+}
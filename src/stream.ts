@@ -0,0 +1,419 @@
+/**
+ * Streaming parser for AQS responses
+ *
+ * A state-wide hourly sample request can return hundreds of megabytes.
+ * Instead of buffering the body and calling JSON.parse on all of it, the
+ * parser scans the text as it arrives and hands each element of the Data
+ * array to a row handler, so only one row is held in memory at a time.
+ * Other top-level members (Header) are small and parsed whole.
+ */
+
+import type { WriteStream } from 'node:fs';
+import { mkdir, open } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import { dirname, resolve as resolvePath } from 'node:path';
+import { AqsLocalError } from './errors.js';
+
+/**
+ * Receives one row; returning false rejects it and stops the stream
+ */
+export type RowHandler<T> = (row: T) => boolean | void;
+
+/**
+ * How the consumer of a stream paces and ends it
+ */
+export interface StreamOptions {
+  /** Called after each chunk of the body; the next chunk is read once it resolves */
+  ready?: () => Promise<void> | void;
+  /** Whether the consumer has every row it needs; checked before each year */
+  done?: () => boolean;
+}
+
+type CaptureKind = 'key' | 'value' | 'row';
+
+/**
+ * Incremental parser for `{"Header": [...], "Data": [row, row, ...]}`
+ *
+ * Feed text with write() and call end() once the body is complete.
+ */
+export class DataArrayParser<T = unknown> {
+  private readonly onRow: RowHandler<T>;
+  private readonly values: Record<string, unknown> = {};
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private expectKey = false;
+  private key = '';
+  private inData = false;
+  private capture: CaptureKind | null = null;
+  private captureDepth = 0;
+  private primitive = false;
+  private buffer = '';
+  private stopped = false;
+  rows = 0;
+
+  constructor(onRow: RowHandler<T>) {
+    this.onRow = onRow;
+  }
+
+  /**
+   * Whether the row handler asked to stop
+   */
+  get isStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Parse the next piece of the body
+   */
+  write(chunk: string): void {
+    let start = 0;
+
+    for (let i = 0; i < chunk.length && !this.stopped; i++) {
+      const c = chunk[i];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (c === '\\') {
+          this.escaped = true;
+        } else if (c === '"') {
+          this.inString = false;
+          if (this.capture && this.depth === this.captureDepth) {
+            this.finish(chunk, start, i + 1);
+          }
+        }
+        continue;
+      }
+
+      // Numbers, true, false, and null end at the next delimiter
+      if (this.capture && this.primitive) {
+        if (c !== ',' && c !== '}' && c !== ']' && !isWhitespace(c)) {
+          continue;
+        }
+        this.finish(chunk, start, i);
+      }
+
+      switch (c) {
+        case '"':
+          if (!this.capture && this.begin(c)) {
+            start = i;
+          }
+          this.inString = true;
+          break;
+        case '{':
+        case '[':
+          if (!this.capture && this.begin(c)) {
+            start = i;
+          }
+          this.depth++;
+          if (this.depth === 1) {
+            this.expectKey = true;
+          }
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.capture && this.depth === this.captureDepth) {
+            this.finish(chunk, start, i + 1);
+          } else if (this.inData && this.depth === 1) {
+            this.inData = false;
+          }
+          break;
+        case ':':
+          if (this.depth === 1) {
+            this.expectKey = false;
+          }
+          break;
+        case ',':
+          if (this.depth === 1) {
+            this.expectKey = true;
+          }
+          break;
+        default:
+          if (!isWhitespace(c) && !this.capture && this.begin(c)) {
+            start = i;
+            this.primitive = true;
+          }
+      }
+    }
+
+    if (this.capture) {
+      this.buffer += chunk.slice(start);
+    }
+  }
+
+  /**
+   * Finish parsing and return the members other than Data
+   */
+  end(): Record<string, unknown> {
+    if (!this.stopped) {
+      if (this.capture && this.primitive) {
+        this.finish('', 0, 0);
+      }
+      if (this.depth !== 0 || this.inString || this.capture) {
+        throw new SyntaxError('AQS response ended before the JSON was complete.');
+      }
+    }
+    return this.values;
+  }
+
+  /**
+   * Decide whether the token starting with `c` is captured, and as what
+   */
+  private begin(c: string): boolean {
+    if (this.depth === 1 && this.expectKey) {
+      this.capture = 'key';
+    } else if (this.depth === 1) {
+      if (c === '[' && this.key === 'Data') {
+        this.inData = true;
+        return false;
+      }
+      this.capture = 'value';
+    } else if (this.depth === 2 && this.inData) {
+      this.capture = 'row';
+    } else {
+      return false;
+    }
+
+    this.captureDepth = this.depth;
+    this.primitive = false;
+    this.buffer = '';
+    return true;
+  }
+
+  /**
+   * Parse a captured token ending at `end` in `chunk`
+   */
+  private finish(chunk: string, start: number, end: number): void {
+    const text = this.buffer + chunk.slice(start, end);
+    const kind = this.capture;
+    this.capture = null;
+    this.primitive = false;
+    this.buffer = '';
+
+    if (kind === 'key') {
+      this.key = JSON.parse(text) as string;
+    } else if (kind === 'value') {
+      this.values[this.key] = JSON.parse(text);
+    } else if (kind === 'row') {
+      this.rows++;
+      if (this.onRow(JSON.parse(text) as T) === false) {
+        this.stopped = true;
+      }
+    }
+  }
+}
+
+function isWhitespace(c: string): boolean {
+  return c === ' ' || c === '\n' || c === '\r' || c === '\t';
+}
+
+/**
+ * Accepts the first `limit` rows and stops the stream after them
+ *
+ * Rows are kept for the response unless `keepRows` is false, as when they
+ * go to a file or a summary and only need counting.
+ */
+export class RowLimit<T> {
+  readonly rows: T[] = [];
+  readonly limit: number;
+  private readonly keepRows: boolean;
+  count = 0;
+
+  constructor(limit: number, options: { keepRows?: boolean } = {}) {
+    this.limit = limit;
+    this.keepRows = options.keepRows ?? true;
+  }
+
+  /**
+   * Whether `limit` rows have been accepted
+   */
+  get full(): boolean {
+    return this.count >= this.limit;
+  }
+
+  add(row: T): boolean {
+    if (this.full) {
+      return false;
+    }
+    this.count++;
+    if (this.keepRows) {
+      this.rows.push(row);
+    }
+    return true;
+  }
+}
+
+/**
+ * Error for an output_file that could not be created or written
+ */
+export function outputFileError(path: string, error: unknown): AqsLocalError {
+  const message = (error as NodeJS.ErrnoException).code === 'EEXIST'
+    ? `output_file ${path} already exists. Existing files are never overwritten; choose a new path.`
+    : `Could not write output_file ${path}: ${(error as Error).message}`;
+  return new AqsLocalError(message, { cause: error });
+}
+
+/**
+ * Create a new output file, creating its parent directories
+ *
+ * Output paths come from tool arguments, so an existing file is never
+ * truncated or replaced.
+ */
+export async function createOutputFile(path: string): Promise<FileHandle> {
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    return await open(path, 'wx');
+  } catch (error) {
+    throw outputFileError(path, error);
+  }
+}
+
+/**
+ * Writes rows to a new JSON Lines file as they arrive
+ *
+ * A write error is kept and thrown by the next add(), ready(), or close(),
+ * so a bad path fails the request instead of the process.
+ */
+export class JsonLinesWriter<T> {
+  readonly path: string;
+  rows = 0;
+  private stream?: WriteStream;
+  private error?: AqsLocalError;
+
+  constructor(path: string) {
+    this.path = resolvePath(path);
+  }
+
+  async open(): Promise<void> {
+    const handle = await createOutputFile(this.path);
+    this.stream = handle.createWriteStream({ encoding: 'utf8' });
+    this.stream.on('error', error => {
+      this.error ??= outputFileError(this.path, error);
+    });
+  }
+
+  add(row: T): void {
+    if (this.error) {
+      throw this.error;
+    }
+    this.stream?.write(`${JSON.stringify(row)}\n`);
+    this.rows++;
+  }
+
+  /**
+   * Wait until the file has caught up with the rows added so far
+   */
+  async ready(): Promise<void> {
+    const stream = this.stream;
+    if (this.error) {
+      throw this.error;
+    }
+    if (!stream?.writableNeedDrain) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const onDrain = (): void => {
+        stream.off('error', onError);
+        resolve();
+      };
+      const onError = (error: Error): void => {
+        stream.off('drain', onDrain);
+        reject(outputFileError(this.path, error));
+      };
+      stream.once('drain', onDrain);
+      stream.once('error', onError);
+    });
+  }
+
+  async close(): Promise<void> {
+    const stream = this.stream;
+    if (!stream) {
+      return;
+    }
+    if (this.error) {
+      stream.destroy();
+      throw this.error;
+    }
+    await new Promise<void>((resolve, reject) => {
+      stream.once('error', error => reject(outputFileError(this.path, error)));
+      stream.end(resolve);
+    });
+  }
+}
+
+/**
+ * Running statistics of one group of rows
+ */
+export interface AggregateGroup {
+  [field: string]: unknown;
+  count: number;
+  measured: number;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  first_date?: string;
+  last_date?: string;
+}
+
+/**
+ * Summarizes rows into per-group count, mean, minimum, and maximum
+ *
+ * Keeps one small record per group regardless of how many rows arrive.
+ */
+export class RowAggregator<T> {
+  private readonly groups = new Map<string, AggregateGroup & { sum: number }>();
+  private readonly describe: (row: T) => Record<string, unknown>;
+  private readonly valueOf: (row: T) => number | null | undefined;
+  private readonly dateOf: (row: T) => string | undefined;
+
+  constructor(options: {
+    /** Fields identifying the group of a row */
+    describe: (row: T) => Record<string, unknown>;
+    /** Measured value of a row, or null when missing */
+    valueOf: (row: T) => number | null | undefined;
+    /** Date of a row */
+    dateOf: (row: T) => string | undefined;
+  }) {
+    this.describe = options.describe;
+    this.valueOf = options.valueOf;
+    this.dateOf = options.dateOf;
+  }
+
+  add(row: T): void {
+    const fields = this.describe(row);
+    const key = JSON.stringify(fields);
+    let group = this.groups.get(key);
+    if (!group) {
+      group = { ...fields, count: 0, measured: 0, sum: 0, mean: null, min: null, max: null };
+      this.groups.set(key, group);
+    }
+
+    group.count++;
+    const value = this.valueOf(row);
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      group.measured++;
+      group.sum += value;
+      group.min = group.min === null ? value : Math.min(group.min, value);
+      group.max = group.max === null ? value : Math.max(group.max, value);
+    }
+
+    const date = this.dateOf(row);
+    if (date) {
+      if (!group.first_date || date < group.first_date) {
+        group.first_date = date;
+      }
+      if (!group.last_date || date > group.last_date) {
+        group.last_date = date;
+      }
+    }
+  }
+
+  results(): AggregateGroup[] {
+    return [...this.groups.values()].map(({ sum, ...group }) => ({
+      ...group,
+      mean: group.measured > 0 ? Math.round((sum / group.measured) * 10000) / 10000 : null,
+    }));
+  }
+}
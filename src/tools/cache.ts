@@ -0,0 +1,87 @@
+/**
+ * MCP Tools for the local AQS response cache
+ *
+ * Cached responses answer repeated questions without waiting out the rate
+ * limit. These tools report what the cache holds (entries per endpoint,
+ * size, session hit rate) and remove entries that are expired or belong to
+ * one endpoint.
+ */
+
+import { stringArgument } from './tool.js';
+import type { McpTool } from './tool.js';
+
+const CACHE_DISABLED_MESSAGE =
+  'The response cache is disabled (AQS_CACHE_DISABLED is set).';
+
+/**
+ * Tool: aqs_cache_stats
+ * Summarize the response cache
+ */
+const cacheStatsTool: McpTool = {
+  name: 'aqs_cache_stats',
+  description:
+    'Show the local cache of AQS responses: its directory, number of entries, size on disk, ' +
+    'expired entries, entries per endpoint, and cache hits and misses since the server started.',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+  handler: async (_args, client) => {
+    if (!client.cache) {
+      return { content: [{ type: 'text', text: CACHE_DISABLED_MESSAGE }] };
+    }
+
+    const stats = await client.cache.stats();
+    return {
+      content: [{ type: 'text', text: JSON.stringify(stats, null, 2) }],
+    };
+  },
+};
+
+/**
+ * Tool: aqs_cache_purge
+ * Remove entries from the response cache
+ */
+const cachePurgeTool: McpTool = {
+  name: 'aqs_cache_purge',
+  description:
+    'Remove entries from the local cache of AQS responses, so the next request goes to EPA. ' +
+    'By default removes everything; use expired_only or endpoint to narrow it down.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      expired_only: {
+        type: 'boolean',
+        description: 'Only remove entries that have expired (default: false)',
+      },
+      endpoint: {
+        type: 'string',
+        description: 'Only remove entries for this AQS endpoint, e.g. "sampleData/bySite" or "list/states"',
+      },
+    },
+  },
+  handler: async (args, client) => {
+    if (!client.cache) {
+      return { content: [{ type: 'text', text: CACHE_DISABLED_MESSAGE }] };
+    }
+
+    const removed = await client.cache.purge({
+      expiredOnly: args.expired_only === true,
+      endpoint: stringArgument(args, 'endpoint'),
+    });
+    return {
+      content: [{
+        type: 'text',
+        text: `Removed ${removed} cache ${removed === 1 ? 'entry' : 'entries'} from ${client.cache.directory}.`,
+      }],
+    };
+  },
+};
+
+/**
+ * All cache tools
+ */
+export const cacheTools: McpTool[] = [
+  cacheStatsTool,
+  cachePurgeTool,
+];
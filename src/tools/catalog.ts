@@ -0,0 +1,270 @@
+/**
+ * MCP tools generated from the service catalog
+ *
+ * Every catalog service gets one tool per geography. The generated handler
+ * resolves credentials, validates the dates and location, and builds the
+ * AQS request parameters; a named handler then requests the data and
+ * formats it. Handlers live with the services they format (annual
+ * summaries, sample data, monitors, QA, and transactions); services
+ * without one, including those from the user catalog file, return their
+ * rows as they are.
+ */
+
+import {
+  resolveCredentials,
+  validateDateFormat,
+  validateDateRange,
+  validateBoundingBox,
+  validateChangeDates,
+  summarizeChanges,
+  summarizeYears,
+} from '../client.js';
+import type { AqsClient } from '../client.js';
+import { GEOGRAPHIES } from '../catalog.js';
+import { credentialProperties } from '../credentials.js';
+import type { SchemaProperty, ServiceDefinition } from '../catalog.js';
+import type { YearResult } from '../types.js';
+import { annualHandlers } from './annual.js';
+import { monitorHandlers } from './monitors.js';
+import { qaHandlers } from './qa.js';
+import { sampleHandlers } from './samples.js';
+import { requiredArgument, stringArgument } from './tool.js';
+import type { McpTool, ToolResult } from './tool.js';
+import { transactionHandlers } from './transactions.js';
+
+/**
+ * A validated request for one catalog tool call
+ */
+export interface CatalogRequest {
+  endpoint: string;
+  /** Arguments of the tool call */
+  params: Record<string, unknown>;
+  /** Parameters of the AQS request, credentials included */
+  requestParams: Record<string, string>;
+  /** cbdate/cedate when given */
+  changeDates: Record<string, string>;
+}
+
+/**
+ * Requests and formats the data of a catalog service
+ */
+export interface CatalogHandler {
+  /** Arguments the handler adds to the tools that use it */
+  properties?: Record<string, SchemaProperty>;
+  handle: (client: AqsClient, request: CatalogRequest) => Promise<ToolResult>;
+}
+
+/**
+ * Input schema properties for parameter and date range
+ */
+const dateRangeProperties: Record<string, SchemaProperty> = {
+  param: {
+    type: 'string',
+    description:
+      'Parameter code (e.g., 44201 for Ozone, 88101 for PM2.5, 81102 for PM10, 42401 for SO2, 42101 for CO, 42602 for NO2). Up to 5 comma-separated codes allowed.',
+  },
+  bdate: {
+    type: 'string',
+    description:
+      'Begin date in YYYYMMDD format. Ranges spanning several years are split into one request per year.',
+  },
+  edate: {
+    type: 'string',
+    description:
+      'End date in YYYYMMDD format. Ranges spanning several years are split into one request per year.',
+  },
+};
+
+/**
+ * Input schema properties for incremental updates
+ */
+const changeDateProperties: Record<string, SchemaProperty> = {
+  cbdate: {
+    type: 'string',
+    description:
+      'Optional change begin date in YYYYMMDD format. With cedate, returns only rows added or changed in AQS within this window (for incremental updates).',
+  },
+  cedate: {
+    type: 'string',
+    description:
+      'Optional change end date in YYYYMMDD format. Must be provided together with cbdate.',
+  },
+};
+
+/**
+ * Format rows for MCP output
+ */
+function formatRows<T extends { date_of_last_change?: string }>(
+  data: T[],
+  endpoint: string,
+  changeDates: Record<string, string> = {},
+  yearResults: YearResult[] = []
+): string {
+  const changes = summarizeChanges(data, changeDates);
+  const years = summarizeYears(yearResults);
+
+  if (data.length === 0) {
+    return JSON.stringify(
+      {
+        message: 'No data found for the specified query parameters.',
+        endpoint,
+        rowCount: 0,
+        ...(changes ? { changes } : {}),
+        ...(years ? { years } : {}),
+      },
+      null,
+      2
+    );
+  }
+
+  return JSON.stringify(
+    {
+      endpoint,
+      rowCount: data.length,
+      ...(changes ? { changes } : {}),
+      ...(years ? { years } : {}),
+      data,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Default handler: return the rows of every year
+ */
+const rowsHandler: CatalogHandler = {
+  handle: async (client, { endpoint, requestParams, changeDates }) => {
+    const response = await client.requestByYear<{ date_of_last_change?: string }>(
+      endpoint,
+      requestParams
+    );
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: formatRows(response.Data, endpoint, changeDates, response.years),
+        },
+      ],
+    };
+  },
+};
+
+/**
+ * Handlers by the name catalog services refer to them with
+ */
+export const catalogHandlers: Record<string, CatalogHandler> = {
+  rows: rowsHandler,
+  ...annualHandlers,
+  ...monitorHandlers,
+  ...qaHandlers,
+  ...sampleHandlers,
+  ...transactionHandlers,
+};
+
+/**
+ * Generate one tool per service and geography
+ *
+ * Throws when a service names an unknown handler or a tool name is taken,
+ * so a bad catalog file stops the server at startup.
+ */
+export function catalogTools(
+  services: ServiceDefinition[],
+  handlers: Record<string, CatalogHandler> = catalogHandlers
+): McpTool[] {
+  const tools: McpTool[] = [];
+  const names = new Set<string>();
+
+  for (const definition of services) {
+    const handlerName = definition.handler ?? 'rows';
+    const handler = handlers[handlerName];
+    if (!handler) {
+      throw new Error(
+        `Service ${definition.service} uses unknown handler "${handlerName}". ` +
+        `Known handlers: ${Object.keys(handlers).join(', ')}.`
+      );
+    }
+
+    for (const geographyId of definition.geographies) {
+      const geography = GEOGRAPHIES[geographyId];
+      const endpoint = `${definition.service}/${geography.endpoint}`;
+      const name = `${definition.tool}_${geography.tool}`;
+
+      if (names.has(name)) {
+        throw new Error(`Tool ${name} is defined more than once in the service catalog.`);
+      }
+      names.add(name);
+
+      tools.push({
+        name,
+        description: definition.description.replaceAll('{scope}', geography.scope),
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...credentialProperties,
+            ...dateRangeProperties,
+            ...(definition.changeDates ? changeDateProperties : {}),
+            ...geography.properties,
+            ...definition.properties,
+            ...handler.properties,
+          },
+          required: [
+            'param',
+            'bdate',
+            'edate',
+            ...Object.keys(geography.properties),
+            ...(definition.required ?? []),
+          ],
+        },
+        handler: async (params, client) => {
+          const { email, key } = resolveCredentials(
+            stringArgument(params, 'email'),
+            stringArgument(params, 'key')
+          );
+          const bdate = requiredArgument(params, 'bdate');
+          const edate = requiredArgument(params, 'edate');
+
+          validateDateFormat(bdate, 'bdate');
+          validateDateFormat(edate, 'edate');
+          validateDateRange(bdate, edate);
+          const changeDates = definition.changeDates
+            ? validateChangeDates(stringArgument(params, 'cbdate'), stringArgument(params, 'cedate'))
+            : {};
+
+          if (geographyId === 'box') {
+            validateBoundingBox(
+              requiredArgument(params, 'minlat'),
+              requiredArgument(params, 'maxlat'),
+              requiredArgument(params, 'minlon'),
+              requiredArgument(params, 'maxlon')
+            );
+          }
+
+          // Location and service arguments go to AQS; handler arguments do not
+          const requestParams: Record<string, string> = {
+            email,
+            key,
+            param: requiredArgument(params, 'param'),
+            bdate,
+            edate,
+            ...changeDates,
+          };
+          for (const field of [
+            ...Object.keys(geography.properties),
+            ...Object.keys(definition.properties ?? {}),
+          ]) {
+            const value = params[field];
+            if (value !== undefined && value !== '' && !(field in requestParams)) {
+              requestParams[field] = String(value);
+            }
+          }
+
+          return handler.handle(client, { endpoint, params, requestParams, changeDates });
+        },
+      });
+    }
+  }
+
+  return tools;
+}
@@ -2,30 +2,25 @@
  * MCP Tools for EPA AQS API Reference Data (List Endpoints)
  *
  * These tools provide access to reference data for looking up
- * state codes, county codes, monitoring sites, CBSAs, and parameters.
+ * state codes, county codes, monitoring sites, CBSAs, PQAOs, monitoring
+ * agencies, sample durations, and parameters.
  */
 
-import { aqs, resolveCredentials } from '../client.js';
-import type { State, County, Site, Cbsa, ParameterClass, Parameter } from '../types.js';
-
-/**
- * Tool definition type for MCP
- */
-export interface McpTool {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, {
-      type: string;
-      description: string;
-    }>;
-    required?: string[];
-  };
-  handler: (args: Record<string, string>) => Promise<{
-    content: Array<{ type: 'text'; text: string }>;
-  }>;
-}
+import { resolveCredentials } from '../client.js';
+import { credentialProperties } from '../credentials.js';
+import type {
+  State,
+  County,
+  Site,
+  Cbsa,
+  Pqao,
+  MonitoringAgency,
+  Duration,
+  ParameterClass,
+  Parameter,
+} from '../types.js';
+import { requiredArgument, stringArgument } from './tool.js';
+import type { McpTool } from './tool.js';
 
 /**
  * Helper to format API response as text content
@@ -54,19 +49,15 @@ const listStatesTool: McpTool = {
   inputSchema: {
     type: 'object',
     properties: {
-      email: {
-        type: 'string',
-        description: 'Registered email address for AQS API. Optional if AQS_EMAIL env var is set.',
-      },
-      key: {
-        type: 'string',
-        description: 'AQS API key. Optional if AQS_API_KEY env var is set.',
-      },
+      ...credentialProperties,
     },
   },
-  handler: async (args) => {
-    const { email, key } = resolveCredentials(args.email, args.key);
-    const response = await aqs<State>('list/states', { email, key });
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+    const response = await client.request<State>('list/states', { email, key });
     return formatResponse(response.Data);
   },
 };
@@ -84,14 +75,7 @@ const listCountiesTool: McpTool = {
   inputSchema: {
     type: 'object',
     properties: {
-      email: {
-        type: 'string',
-        description: 'Registered email address for AQS API. Optional if AQS_EMAIL env var is set.',
-      },
-      key: {
-        type: 'string',
-        description: 'AQS API key. Optional if AQS_API_KEY env var is set.',
-      },
+      ...credentialProperties,
       state: {
         type: 'string',
         description: '2-digit FIPS state code (e.g., "06" for California, "48" for Texas).',
@@ -99,12 +83,15 @@ const listCountiesTool: McpTool = {
     },
     required: ['state'],
   },
-  handler: async (args) => {
-    const { email, key } = resolveCredentials(args.email, args.key);
-    const response = await aqs<County>('list/countiesByState', {
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+    const response = await client.request<County>('list/countiesByState', {
       email,
       key,
-      state: args.state,
+      state: requiredArgument(args, 'state'),
     });
     return formatResponse(response.Data);
   },
@@ -123,14 +110,7 @@ const listSitesTool: McpTool = {
   inputSchema: {
     type: 'object',
     properties: {
-      email: {
-        type: 'string',
-        description: 'Registered email address for AQS API. Optional if AQS_EMAIL env var is set.',
-      },
-      key: {
-        type: 'string',
-        description: 'AQS API key. Optional if AQS_API_KEY env var is set.',
-      },
+      ...credentialProperties,
       state: {
         type: 'string',
         description: '2-digit FIPS state code (e.g., "06" for California).',
@@ -142,13 +122,16 @@ const listSitesTool: McpTool = {
     },
     required: ['state', 'county'],
   },
-  handler: async (args) => {
-    const { email, key } = resolveCredentials(args.email, args.key);
-    const response = await aqs<Site>('list/sitesByCounty', {
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+    const response = await client.request<Site>('list/sitesByCounty', {
       email,
       key,
-      state: args.state,
-      county: args.county,
+      state: requiredArgument(args, 'state'),
+      county: requiredArgument(args, 'county'),
     });
     return formatResponse(response.Data);
   },
@@ -168,19 +151,94 @@ const listCbsasTool: McpTool = {
   inputSchema: {
     type: 'object',
     properties: {
-      email: {
-        type: 'string',
-        description: 'Registered email address for AQS API. Optional if AQS_EMAIL env var is set.',
-      },
-      key: {
-        type: 'string',
-        description: 'AQS API key. Optional if AQS_API_KEY env var is set.',
-      },
+      ...credentialProperties,
+    },
+  },
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+    const response = await client.request<Cbsa>('list/cbsas', { email, key });
+    return formatResponse(response.Data);
+  },
+};
+
+/**
+ * Tool: aqs_list_pqaos
+ * Get Primary Quality Assurance Organizations
+ */
+const listPqaosTool: McpTool = {
+  name: 'aqs_list_pqaos',
+  description:
+    'Get a list of Primary Quality Assurance Organizations (PQAOs) with their 4-digit codes. ' +
+    'A PQAO is the monitoring organization, or group of organizations, responsible for a set of ' +
+    'monitors and the quality assurance of their data. Use PQAO codes for *_by_pqao queries.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...credentialProperties,
     },
   },
-  handler: async (args) => {
-    const { email, key } = resolveCredentials(args.email, args.key);
-    const response = await aqs<Cbsa>('list/cbsas', { email, key });
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+    const response = await client.request<Pqao>('list/pqaos', { email, key });
+    return formatResponse(response.Data);
+  },
+};
+
+/**
+ * Tool: aqs_list_monitoring_agencies
+ * Get Monitoring Agencies
+ */
+const listMonitoringAgenciesTool: McpTool = {
+  name: 'aqs_list_monitoring_agencies',
+  description:
+    'Get a list of Monitoring Agencies (MAs) with their 4-digit codes. ' +
+    'A monitoring agency is the state, local, or tribal organization that operates monitors. ' +
+    'Use agency codes for *_by_ma queries.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...credentialProperties,
+    },
+  },
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+    const response = await client.request<MonitoringAgency>('list/mas', { email, key });
+    return formatResponse(response.Data);
+  },
+};
+
+/**
+ * Tool: aqs_list_durations
+ * Get sample duration codes
+ */
+const listDurationsTool: McpTool = {
+  name: 'aqs_list_durations',
+  description:
+    'Get a list of sample duration codes and their meanings. ' +
+    'Sample durations describe the averaging period of a measurement and appear as ' +
+    'sample_duration_code in sample and summary data. ' +
+    'Example: "1" = 1 HOUR, "7" = 24 HOUR, "W" = 8-HR RUN AVG BEGIN HOUR.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...credentialProperties,
+    },
+  },
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+    const response = await client.request<Duration>('list/durations', { email, key });
     return formatResponse(response.Data);
   },
 };
@@ -199,19 +257,15 @@ const listParameterClassesTool: McpTool = {
   inputSchema: {
     type: 'object',
     properties: {
-      email: {
-        type: 'string',
-        description: 'Registered email address for AQS API. Optional if AQS_EMAIL env var is set.',
-      },
-      key: {
-        type: 'string',
-        description: 'AQS API key. Optional if AQS_API_KEY env var is set.',
-      },
+      ...credentialProperties,
     },
   },
-  handler: async (args) => {
-    const { email, key } = resolveCredentials(args.email, args.key);
-    const response = await aqs<ParameterClass>('list/classes', { email, key });
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+    const response = await client.request<ParameterClass>('list/classes', { email, key });
     return formatResponse(response.Data);
   },
 };
@@ -231,14 +285,7 @@ const listParametersTool: McpTool = {
   inputSchema: {
     type: 'object',
     properties: {
-      email: {
-        type: 'string',
-        description: 'Registered email address for AQS API. Optional if AQS_EMAIL env var is set.',
-      },
-      key: {
-        type: 'string',
-        description: 'AQS API key. Optional if AQS_API_KEY env var is set.',
-      },
+      ...credentialProperties,
       pc: {
         type: 'string',
         description:
@@ -248,12 +295,15 @@ const listParametersTool: McpTool = {
     },
     required: ['pc'],
   },
-  handler: async (args) => {
-    const { email, key } = resolveCredentials(args.email, args.key);
-    const response = await aqs<Parameter>('list/parametersByClass', {
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+    const response = await client.request<Parameter>('list/parametersByClass', {
       email,
       key,
-      pc: args.pc,
+      pc: requiredArgument(args, 'pc'),
     });
     return formatResponse(response.Data);
   },
@@ -267,6 +317,9 @@ export const listTools: McpTool[] = [
   listCountiesTool,
   listSitesTool,
   listCbsasTool,
+  listPqaosTool,
+  listMonitoringAgenciesTool,
+  listDurationsTool,
   listParameterClassesTool,
   listParametersTool,
 ];
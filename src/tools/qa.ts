@@ -0,0 +1,477 @@
+/**
+ * EPA AQS Quality Assurance Data handlers for the service catalog
+ *
+ * Quality assurance services expose the checks that monitoring agencies
+ * submit alongside routine data, such as field, trip, and lab blanks for
+ * PM2.5 filter-based samplers, collocated sampler comparisons used for
+ * precision estimates, particulate sampler flow rate checks, one-point QC
+ * checks for gaseous monitors, annual performance evaluations, and PM2.5
+ * Performance Evaluation Program audits.
+ */
+
+import { summarizeYears } from '../client.js';
+import type { AqsClient } from '../client.js';
+import type {
+  QaAnnualPerformanceEvaluation,
+  QaBlank,
+  QaCollocatedAssessment,
+  QaFlowRateVerification,
+  QaFlowRateAudit,
+  QaOnePointQc,
+  QaPepAudit,
+  YearResult,
+} from '../types.js';
+import type { CatalogHandler, CatalogRequest } from './catalog.js';
+import type { ToolResult } from './tool.js';
+
+/**
+ * Format QA response data for MCP output, with an optional computed summary
+ */
+function formatResponse<T>(
+  data: T[],
+  endpoint: string,
+  summary?: unknown,
+  yearResults: YearResult[] = []
+): string {
+  const years = summarizeYears(yearResults);
+
+  if (!data || data.length === 0) {
+    return JSON.stringify(
+      {
+        message: 'No quality assurance data found for the specified query parameters.',
+        endpoint,
+        rowCount: 0,
+        ...(years ? { years } : {}),
+      },
+      null,
+      2
+    );
+  }
+
+  return JSON.stringify(
+    {
+      endpoint,
+      rowCount: data.length,
+      ...(years ? { years } : {}),
+      ...(summary !== undefined ? { summary } : {}),
+      data,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Round a computed statistic for display
+ */
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Lowest concentration (µg/m³) at which a collocated pair counts toward precision
+ *
+ * From 40 CFR Part 58 Appendix A, by parameter code: PM2.5 (88101),
+ * PM10-2.5 (86101), PM10 (81102, 85101; the low-volume cutoff), and lead
+ * (12128, 14129, 85129).
+ */
+const COLLOCATED_CUTOFFS: Record<string, number> = {
+  '88101': 3,
+  '86101': 3,
+  '81102': 3,
+  '85101': 3,
+  '12128': 0.002,
+  '14129': 0.002,
+  '85129': 0.002,
+};
+
+/**
+ * Compute the coefficient of variation for each primary/collocated sampler pair
+ *
+ * Uses the 40 CFR Part 58 Appendix A precision estimate: for each pair the
+ * relative percent difference d = (X - Y) / ((X + Y) / 2) * 100, and
+ * CV = sqrt((n * sum(d^2) - (sum d)^2) / (2 * n * (n - 1))).
+ * For the parameters in COLLOCATED_CUTOFFS only pairs with both values at
+ * or above the cutoff count, as near-zero pairs give huge relative
+ * differences; other parameters use every pair with a positive mean.
+ * Pairs with a missing value are skipped.
+ */
+function summarizeCollocatedPrecision(data: QaCollocatedAssessment[]) {
+  const groups = new Map<string, { row: QaCollocatedAssessment; diffs: number[] }>();
+
+  for (const row of data) {
+    const id = [
+      row.state_code,
+      row.county_code,
+      row.site_number,
+      row.parameter_code,
+      row.primary_poc,
+      row.collocated_poc,
+    ].join('-');
+
+    let group = groups.get(id);
+    if (!group) {
+      group = { row, diffs: [] };
+      groups.set(id, group);
+    }
+
+    const primary = row.primary_sample_value;
+    const collocated = row.collocated_sample_value;
+    if (primary === null || collocated === null) {
+      continue;
+    }
+
+    const cutoff = COLLOCATED_CUTOFFS[row.parameter_code];
+    if (cutoff !== undefined && (primary < cutoff || collocated < cutoff)) {
+      continue;
+    }
+
+    const mean = (primary + collocated) / 2;
+    if (mean > 0) {
+      group.diffs.push(((primary - collocated) / mean) * 100);
+    }
+  }
+
+  return Array.from(groups.values()).map(({ row, diffs }) => {
+    const n = diffs.length;
+    const sum = diffs.reduce((acc, d) => acc + d, 0);
+    const sumSquares = diffs.reduce((acc, d) => acc + d * d, 0);
+    const cv =
+      n >= 2
+        ? Math.sqrt(Math.max(0, n * sumSquares - sum * sum) / (2 * n * (n - 1)))
+        : null;
+
+    return {
+      state_code: row.state_code,
+      county_code: row.county_code,
+      site_number: row.site_number,
+      parameter_code: row.parameter_code,
+      primary_poc: row.primary_poc,
+      collocated_poc: row.collocated_poc,
+      minimum_concentration: COLLOCATED_CUTOFFS[row.parameter_code] ?? null,
+      pair_count: n,
+      coefficient_of_variation: cv === null ? null : round(cv),
+    };
+  });
+}
+
+/**
+ * Acceptance limits (absolute percent difference) for PM flow rate checks
+ */
+const FLOW_RATE_STANDARD_LIMIT = 4; // sampler vs. audit/transfer standard
+const FLOW_RATE_DESIGN_LIMIT = 5; // sampler vs. design flow rate
+
+/**
+ * Percent difference of a measured value relative to a reference value
+ */
+function percentDifference(
+  measured: number | null | undefined,
+  reference: number | null | undefined
+): number | null {
+  if (
+    measured === null ||
+    measured === undefined ||
+    reference === null ||
+    reference === undefined ||
+    reference === 0
+  ) {
+    return null;
+  }
+  return ((measured - reference) / reference) * 100;
+}
+
+/**
+ * Whether a percent difference is outside an acceptance limit
+ *
+ * Floating-point noise is dropped first, so a check exactly at the limit
+ * (e.g., 17.535 L/min against 16.7 L/min, computed as 5.000000000000005%)
+ * passes.
+ */
+function exceedsLimit(diff: number | null, limit: number): boolean {
+  return diff !== null && round(Math.abs(diff), 9) > limit;
+}
+
+/**
+ * Flow rate check row with derived percent differences and acceptance flag
+ */
+type DerivedFlowRateCheck<T> = T & {
+  percent_difference: number | null;
+  design_percent_difference: number | null;
+  exceeds_acceptance_criteria: boolean;
+};
+
+/**
+ * Derive percent differences for a flow rate verification or audit
+ *
+ * A check fails when the sampler flow differs from the audit standard by
+ * more than 4% or from the design flow rate by more than 5%.
+ */
+function deriveFlowRateCheck<T extends QaFlowRateVerification | QaFlowRateAudit>(
+  row: T
+): DerivedFlowRateCheck<T> {
+  const standardDiff = percentDifference(row.monitor_flow_rate, row.audit_flow_rate);
+  const designDiff = percentDifference(row.monitor_flow_rate, row.design_flow_rate);
+
+  return {
+    ...row,
+    percent_difference: standardDiff === null ? null : round(standardDiff),
+    design_percent_difference: designDiff === null ? null : round(designDiff),
+    exceeds_acceptance_criteria:
+      exceedsLimit(standardDiff, FLOW_RATE_STANDARD_LIMIT) ||
+      exceedsLimit(designDiff, FLOW_RATE_DESIGN_LIMIT),
+  };
+}
+
+/**
+ * Summarize flow rate checks, listing the ones that failed acceptance criteria
+ */
+function summarizeFlowRateChecks<T extends QaFlowRateVerification | QaFlowRateAudit>(data: T[]) {
+  const failures = data.map(deriveFlowRateCheck).filter(row => row.exceeds_acceptance_criteria);
+
+  return {
+    check_count: data.length,
+    failure_count: failures.length,
+    acceptance_criteria: `±${FLOW_RATE_STANDARD_LIMIT}% of audit standard, ±${FLOW_RATE_DESIGN_LIMIT}% of design flow`,
+    failures: failures.map(row => ({
+      state_code: row.state_code,
+      county_code: row.county_code,
+      site_number: row.site_number,
+      parameter_code: row.parameter_code,
+      poc: row.poc,
+      assessment_date: row.assessment_date,
+      percent_difference: row.percent_difference,
+      design_percent_difference: row.design_percent_difference,
+    })),
+  };
+}
+
+/**
+ * One-sided 95% Student's t quantiles for 1-30 degrees of freedom
+ */
+const T_95_ONE_SIDED = [
+  6.314, 2.92, 2.353, 2.132, 2.015, 1.943, 1.895, 1.86, 1.833, 1.812,
+  1.796, 1.782, 1.771, 1.761, 1.753, 1.746, 1.74, 1.734, 1.729, 1.725,
+  1.721, 1.717, 1.714, 1.711, 1.708, 1.706, 1.703, 1.701, 1.699, 1.697,
+];
+
+/**
+ * One-sided 95% t quantile, falling back to the normal quantile for large samples
+ */
+function tQuantile95(degreesOfFreedom: number): number {
+  return T_95_ONE_SIDED[degreesOfFreedom - 1] ?? 1.645;
+}
+
+/**
+ * One-point QC row with derived percent difference
+ */
+type DerivedOnePointQc = QaOnePointQc & { percent_difference: number | null };
+
+/**
+ * Derive the percent difference of the monitor response from the audit concentration
+ */
+function deriveOnePointQc(row: QaOnePointQc): DerivedOnePointQc {
+  const diff = percentDifference(row.monitor_concentration, row.assessment_concentration);
+  return { ...row, percent_difference: diff === null ? null : round(diff) };
+}
+
+/**
+ * Summarize one-point QC checks per monitor
+ *
+ * Follows the 40 CFR Part 58 Appendix A bias estimate: the upper bound is
+ * the mean absolute percent difference plus t(0.95, n-1) times its standard
+ * deviation divided by sqrt(n).
+ */
+function summarizeOnePointQc(data: QaOnePointQc[]) {
+  const groups = new Map<string, { row: QaOnePointQc; diffs: number[] }>();
+
+  for (const row of data) {
+    const id = [
+      row.state_code,
+      row.county_code,
+      row.site_number,
+      row.parameter_code,
+      row.poc,
+    ].join('-');
+
+    let group = groups.get(id);
+    if (!group) {
+      group = { row, diffs: [] };
+      groups.set(id, group);
+    }
+
+    const diff = percentDifference(row.monitor_concentration, row.assessment_concentration);
+    if (diff !== null) {
+      group.diffs.push(diff);
+    }
+  }
+
+  return Array.from(groups.values()).map(({ row, diffs }) => {
+    const n = diffs.length;
+    const absolute = diffs.map(d => Math.abs(d));
+    const mean = n > 0 ? diffs.reduce((acc, d) => acc + d, 0) / n : null;
+    const absMean = n > 0 ? absolute.reduce((acc, d) => acc + d, 0) / n : null;
+
+    let upperBound: number | null = null;
+    if (n >= 2 && absMean !== null) {
+      const variance =
+        absolute.reduce((acc, d) => acc + (d - absMean) ** 2, 0) / (n - 1);
+      upperBound = absMean + (tQuantile95(n - 1) * Math.sqrt(variance)) / Math.sqrt(n);
+    }
+
+    return {
+      state_code: row.state_code,
+      county_code: row.county_code,
+      site_number: row.site_number,
+      parameter_code: row.parameter_code,
+      poc: row.poc,
+      check_count: n,
+      mean_percent_difference: mean === null ? null : round(mean),
+      mean_absolute_percent_difference: absMean === null ? null : round(absMean),
+      bias_upper_bound: upperBound === null ? null : round(upperBound),
+    };
+  });
+}
+
+/**
+ * PEP audit row with derived percent difference
+ */
+type DerivedPepAudit = QaPepAudit & { percent_difference: number | null };
+
+/**
+ * Derive the percent difference of the routine sampler from the PEP sampler
+ */
+function derivePepAudit(row: QaPepAudit): DerivedPepAudit {
+  const diff = percentDifference(row.sampler_concentration, row.pep_concentration);
+  return { ...row, percent_difference: diff === null ? null : round(diff) };
+}
+
+/**
+ * Summarize PEP audit bias per site and year
+ */
+function summarizePepBias(data: QaPepAudit[]) {
+  const groups = new Map<string, { row: QaPepAudit; year: string; diffs: number[] }>();
+
+  for (const row of data) {
+    const year = row.assessment_date.substring(0, 4);
+    const id = [
+      row.state_code,
+      row.county_code,
+      row.site_number,
+      row.parameter_code,
+      year,
+    ].join('-');
+
+    let group = groups.get(id);
+    if (!group) {
+      group = { row, year, diffs: [] };
+      groups.set(id, group);
+    }
+
+    const diff = percentDifference(row.sampler_concentration, row.pep_concentration);
+    if (diff !== null) {
+      group.diffs.push(diff);
+    }
+  }
+
+  return Array.from(groups.values()).map(({ row, year, diffs }) => {
+    const n = diffs.length;
+    const mean = n > 0 ? diffs.reduce((acc, d) => acc + d, 0) / n : null;
+    const absMean =
+      n > 0 ? diffs.reduce((acc, d) => acc + Math.abs(d), 0) / n : null;
+
+    return {
+      state_code: row.state_code,
+      county_code: row.county_code,
+      site_number: row.site_number,
+      parameter_code: row.parameter_code,
+      year,
+      audit_count: n,
+      mean_percent_difference: mean === null ? null : round(mean),
+      mean_absolute_percent_difference: absMean === null ? null : round(absMean),
+    };
+  });
+}
+
+/**
+ * Optional post-processing applied to QA rows before output
+ *
+ * `summarize` receives the rows as AQS returned them, so its statistics
+ * are not computed from the values `transform` rounds for display.
+ */
+interface QaRequestOptions<T, R> {
+  transform?: (row: T) => R;
+  summarize?: (data: T[]) => unknown;
+}
+
+/**
+ * Common handler logic for QA endpoints
+ */
+async function handleQaRequest<T, R = T>(
+  client: AqsClient,
+  { endpoint, requestParams }: CatalogRequest,
+  options: QaRequestOptions<T, R> = {}
+): Promise<ToolResult> {
+  const response = await client.requestByYear<T>(endpoint, requestParams);
+
+  const { transform, summarize } = options;
+  const rows = transform
+    ? response.Data.map(transform)
+    : (response.Data as unknown as R[]);
+  const summary = summarize && rows.length > 0 ? summarize(response.Data) : undefined;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formatResponse(rows, endpoint, summary, response.years),
+      },
+    ],
+  };
+}
+
+/**
+ * Catalog handlers for QA services, by the summary they compute
+ */
+export const qaHandlers: Record<string, CatalogHandler> = {
+  // Untyped rows, for QA services added in a catalog file
+  qa: {
+    handle: (client, request) => handleQaRequest(client, request),
+  },
+  'qa-blanks': {
+    handle: (client, request) => handleQaRequest<QaBlank>(client, request),
+  },
+  'qa-collocated': {
+    handle: (client, request) =>
+      handleQaRequest<QaCollocatedAssessment>(client, request, {
+        summarize: summarizeCollocatedPrecision,
+      }),
+  },
+  'qa-flow-rate': {
+    handle: (client, request) =>
+      handleQaRequest<
+        QaFlowRateVerification | QaFlowRateAudit,
+        DerivedFlowRateCheck<QaFlowRateVerification | QaFlowRateAudit>
+      >(client, request, {
+        transform: deriveFlowRateCheck,
+        summarize: summarizeFlowRateChecks,
+      }),
+  },
+  'qa-one-point-qc': {
+    handle: (client, request) =>
+      handleQaRequest<QaOnePointQc, DerivedOnePointQc>(client, request, {
+        transform: deriveOnePointQc,
+        summarize: summarizeOnePointQc,
+      }),
+  },
+  'qa-annual-performance-evaluations': {
+    handle: (client, request) => handleQaRequest<QaAnnualPerformanceEvaluation>(client, request),
+  },
+  'qa-pep': {
+    handle: (client, request) =>
+      handleQaRequest<QaPepAudit, DerivedPepAudit>(client, request, {
+        transform: derivePepAudit,
+        summarize: summarizePepBias,
+      }),
+  },
+};
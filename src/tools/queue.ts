@@ -0,0 +1,42 @@
+/**
+ * MCP Tools for the AQS request queue
+ *
+ * Requests wait in a shared queue to respect the AQS rate limit, with
+ * reference lookups ahead of data pulls. The status tool shows how deep
+ * the queue is, so a slow call can be told apart from a stuck one.
+ */
+
+import type { McpTool } from './tool.js';
+
+/**
+ * Tool: aqs_queue_status
+ * Show the depth of the request queue
+ */
+const queueStatusTool: McpTool = {
+  name: 'aqs_queue_status',
+  description:
+    'Show how many AQS requests are waiting for their turn under the rate limit, split into ' +
+    'reference lookups (served first) and data requests, plus the spacing between requests. ' +
+    'Useful to estimate how long a large multi-year download will take.',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+  handler: async (_args, client) => {
+    const status = {
+      ...client.queue.depth(),
+      intervalMs: client.queue.intervalMs,
+      perKey: client.queue.perKey,
+    };
+    return {
+      content: [{ type: 'text', text: JSON.stringify(status, null, 2) }],
+    };
+  },
+};
+
+/**
+ * All queue tools
+ */
+export const queueTools: McpTool[] = [
+  queueStatusTool,
+];
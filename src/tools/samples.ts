@@ -1,151 +1,63 @@
 /**
- * Sample Data Tools for EPA AQS API
+ * Sample Data handler for the EPA AQS API service catalog
  *
- * These tools provide access to raw sample data from air quality monitors.
- * WARNING: Sample data queries can return very large datasets. It is strongly
- * recommended to limit date ranges (e.g., one week or one month) to avoid
- * timeouts and excessive data transfer.
+ * Sample data services provide access to raw sample data from air quality
+ * monitors. WARNING: Sample data queries can return very large datasets. It
+ * is strongly recommended to limit date ranges (e.g., one week or one month)
+ * to avoid timeouts and excessive data transfer.
  */
 
-import {
-  aqs,
-  resolveCredentials,
-  validateDateFormat,
-  validateDateRange,
-} from '../client.js';
-import type { SampleData } from '../types.js';
+import { summarizeChanges, summarizeYears } from '../client.js';
+import type { AqsClient } from '../client.js';
+import type { SchemaProperty } from '../catalog.js';
+import { JsonLinesWriter, RowAggregator, RowLimit } from '../stream.js';
+import type { SampleData, StreamResult, YearResult } from '../types.js';
+import type { CatalogHandler, CatalogRequest } from './catalog.js';
+import { stringArgument } from './tool.js';
+import type { ToolResult } from './tool.js';
 
 /**
- * Tool definition interface matching MCP specification
+ * Common input schema properties for streaming large results
  */
-interface McpTool {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, unknown>;
-    required: string[];
-  };
-  handler: (params: Record<string, string>) => Promise<{
-    content: Array<{ type: 'text'; text: string }>;
-  }>;
-}
-
-/**
- * Common input schema properties for authentication
- */
-const authProperties = {
-  email: {
-    type: 'string',
-    description:
-      'Email address for API authentication. Optional if AQS_EMAIL environment variable is set.',
-  },
-  key: {
-    type: 'string',
+const streamProperties: Record<string, SchemaProperty> = {
+  max_rows: {
+    type: 'integer',
+    minimum: 1,
     description:
-      'API key for authentication. Optional if AQS_API_KEY environment variable is set.',
+      'Optional. Return at most this many rows; the download stops once they have arrived.',
   },
-};
-
-/**
- * Common input schema properties for date range
- */
-const dateProperties = {
-  bdate: {
+  output_file: {
     type: 'string',
     description:
-      'Begin date in YYYYMMDD format. Must be in the same calendar year as edate.',
+      'Optional. Write every row to this new JSON Lines file (one record per line) instead of returning the rows. ' +
+      'Suitable for state-wide hourly pulls. An existing file is never overwritten.',
   },
-  edate: {
-    type: 'string',
+  summarize: {
+    type: 'boolean',
     description:
-      'End date in YYYYMMDD format. Must be in the same calendar year as bdate.',
-  },
-};
-
-/**
- * Common input schema properties for parameter
- */
-const paramProperty = {
-  param: {
-    type: 'string',
-    description:
-      'Parameter code (e.g., 44201 for Ozone, 88101 for PM2.5, 42401 for SO2, 42101 for CO, 42602 for NO2, 81102 for PM10).',
-  },
-};
-
-/**
- * Common input schema properties for state
- */
-const stateProperty = {
-  state: {
-    type: 'string',
-    description: 'Two-digit FIPS state code (e.g., "06" for California, "36" for New York).',
-  },
-};
-
-/**
- * Common input schema properties for county
- */
-const countyProperty = {
-  county: {
-    type: 'string',
-    description: 'Three-digit FIPS county code (e.g., "037" for Los Angeles County).',
-  },
-};
-
-/**
- * Common input schema properties for site
- */
-const siteProperty = {
-  site: {
-    type: 'string',
-    description: 'Four-digit site code identifying the specific monitoring location.',
-  },
-};
-
-/**
- * Common input schema properties for bounding box
- */
-const boxProperties = {
-  minlat: {
-    type: 'string',
-    description: 'Minimum latitude of bounding box (decimal degrees, e.g., "33.0").',
-  },
-  maxlat: {
-    type: 'string',
-    description: 'Maximum latitude of bounding box (decimal degrees, e.g., "34.5").',
-  },
-  minlon: {
-    type: 'string',
-    description: 'Minimum longitude of bounding box (decimal degrees, e.g., "-118.5").',
-  },
-  maxlon: {
-    type: 'string',
-    description: 'Maximum longitude of bounding box (decimal degrees, e.g., "-117.0").',
-  },
-};
-
-/**
- * Common input schema properties for CBSA
- */
-const cbsaProperty = {
-  cbsa: {
-    type: 'string',
-    description:
-      'Core Based Statistical Area code (e.g., "31080" for Los Angeles-Long Beach-Anaheim).',
+      'Optional. Return count, mean, minimum, and maximum per site, POC, and parameter instead of the rows.',
   },
 };
 
 /**
  * Format sample data response for output
  */
-function formatSampleDataResponse(data: SampleData[], endpoint: string): string {
+function formatSampleDataResponse(
+  data: SampleData[],
+  endpoint: string,
+  changeDates: Record<string, string> = {},
+  yearResults: YearResult[] = []
+): string {
+  const changes = summarizeChanges(data ?? [], changeDates);
+  const years = summarizeYears(yearResults);
+
   if (!data || data.length === 0) {
     return JSON.stringify({
       message: 'No sample data found for the specified parameters.',
       endpoint,
       count: 0,
+      ...(changes ? { changes } : {}),
+      ...(years ? { years } : {}),
     });
   }
 
@@ -153,261 +65,121 @@ function formatSampleDataResponse(data: SampleData[], endpoint: string): string
     message: `Retrieved ${data.length} sample data records.`,
     endpoint,
     count: data.length,
+    ...(changes ? { changes } : {}),
+    ...(years ? { years } : {}),
     data,
   });
 }
 
 /**
- * Tool: Get sample data by site
- */
-const sampleDataBySite: McpTool = {
-  name: 'aqs_sample_data_by_site',
-  description:
-    'Get raw sample data for a specific monitoring site. ' +
-    'WARNING: Sample data can be very large. Strongly recommend limiting date ranges to one week or one month. ' +
-    'Returns individual sample measurements including time, value, units, and quality flags.',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      ...authProperties,
-      ...paramProperty,
-      ...dateProperties,
-      ...stateProperty,
-      ...countyProperty,
-      ...siteProperty,
-    },
-    required: ['param', 'bdate', 'edate', 'state', 'county', 'site'],
-  },
-  handler: async (params: Record<string, string>) => {
-    const { email, key } = resolveCredentials(params.email, params.key);
-
-    validateDateFormat(params.bdate, 'bdate');
-    validateDateFormat(params.edate, 'edate');
-    validateDateRange(params.bdate, params.edate);
-
-    const response = await aqs<SampleData>('sampleData/bySite', {
-      email,
-      key,
-      param: params.param,
-      bdate: params.bdate,
-      edate: params.edate,
-      state: params.state,
-      county: params.county,
-      site: params.site,
-    });
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: formatSampleDataResponse(response.Data, 'sampleData/bySite'),
-        },
-      ],
-    };
-  },
-};
-
-/**
- * Tool: Get sample data by county
- */
-const sampleDataByCounty: McpTool = {
-  name: 'aqs_sample_data_by_county',
-  description:
-    'Get raw sample data for all monitoring sites in a county. ' +
-    'WARNING: Sample data can be very large. Strongly recommend limiting date ranges to one week or one month. ' +
-    'Returns individual sample measurements from all sites in the specified county.',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      ...authProperties,
-      ...paramProperty,
-      ...dateProperties,
-      ...stateProperty,
-      ...countyProperty,
-    },
-    required: ['param', 'bdate', 'edate', 'state', 'county'],
-  },
-  handler: async (params: Record<string, string>) => {
-    const { email, key } = resolveCredentials(params.email, params.key);
-
-    validateDateFormat(params.bdate, 'bdate');
-    validateDateFormat(params.edate, 'edate');
-    validateDateRange(params.bdate, params.edate);
-
-    const response = await aqs<SampleData>('sampleData/byCounty', {
-      email,
-      key,
-      param: params.param,
-      bdate: params.bdate,
-      edate: params.edate,
-      state: params.state,
-      county: params.county,
-    });
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: formatSampleDataResponse(response.Data, 'sampleData/byCounty'),
-        },
-      ],
-    };
-  },
-};
-
-/**
- * Tool: Get sample data by state
- */
-const sampleDataByState: McpTool = {
-  name: 'aqs_sample_data_by_state',
-  description:
-    'Get raw sample data for all monitoring sites in a state. ' +
-    'WARNING: Sample data can be EXTREMELY large for state-level queries. ' +
-    'Strongly recommend limiting date ranges to one week or less. ' +
-    'Returns individual sample measurements from all sites in the specified state.',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      ...authProperties,
-      ...paramProperty,
-      ...dateProperties,
-      ...stateProperty,
-    },
-    required: ['param', 'bdate', 'edate', 'state'],
-  },
-  handler: async (params: Record<string, string>) => {
-    const { email, key } = resolveCredentials(params.email, params.key);
-
-    validateDateFormat(params.bdate, 'bdate');
-    validateDateFormat(params.edate, 'edate');
-    validateDateRange(params.bdate, params.edate);
-
-    const response = await aqs<SampleData>('sampleData/byState', {
-      email,
-      key,
-      param: params.param,
-      bdate: params.bdate,
-      edate: params.edate,
-      state: params.state,
-    });
-
+ * Request sample data and format it for output
+ *
+ * By default the rows of every year are collected and returned. With
+ * max_rows, output_file, or summarize the response is streamed instead:
+ * rows are parsed one at a time and go to a row limit, a JSON Lines file,
+ * and/or an aggregator, so the full payload is never held in memory.
+ */
+async function handleSampleRequest(
+  client: AqsClient,
+  { endpoint, params, requestParams, changeDates }: CatalogRequest
+): Promise<ToolResult> {
+  const maxRows = typeof params.max_rows === 'number' ? params.max_rows : undefined;
+  const outputFile = stringArgument(params, 'output_file');
+  const summarize = params.summarize === true;
+
+  if (maxRows === undefined && !outputFile && !summarize) {
+    const response = await client.requestByYear<SampleData>(endpoint, requestParams);
     return {
       content: [
         {
           type: 'text' as const,
-          text: formatSampleDataResponse(response.Data, 'sampleData/byState'),
+          text: formatSampleDataResponse(response.Data, endpoint, changeDates, response.years),
         },
       ],
     };
-  },
-};
-
-/**
- * Tool: Get sample data by bounding box
- */
-const sampleDataByBox: McpTool = {
-  name: 'aqs_sample_data_by_box',
-  description:
-    'Get raw sample data for all monitoring sites within a geographic bounding box. ' +
-    'WARNING: Sample data can be very large depending on box size. ' +
-    'Strongly recommend limiting date ranges to one week or one month. ' +
-    'Returns individual sample measurements from all sites within the specified coordinates.',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      ...authProperties,
-      ...paramProperty,
-      ...dateProperties,
-      ...boxProperties,
-    },
-    required: ['param', 'bdate', 'edate', 'minlat', 'maxlat', 'minlon', 'maxlon'],
-  },
-  handler: async (params: Record<string, string>) => {
-    const { email, key } = resolveCredentials(params.email, params.key);
-
-    validateDateFormat(params.bdate, 'bdate');
-    validateDateFormat(params.edate, 'edate');
-    validateDateRange(params.bdate, params.edate);
+  }
 
-    const response = await aqs<SampleData>('sampleData/byBox', {
-      email,
-      key,
-      param: params.param,
-      bdate: params.bdate,
-      edate: params.edate,
-      minlat: params.minlat,
-      maxlat: params.maxlat,
-      minlon: params.minlon,
-      maxlon: params.maxlon,
-    });
+  const writer = outputFile ? new JsonLinesWriter<SampleData>(outputFile) : undefined;
+  const aggregator = summarize
+    ? new RowAggregator<SampleData>({
+        describe: row => ({
+          state_code: row.state_code,
+          county_code: row.county_code,
+          site_number: row.site_number,
+          parameter_code: row.parameter_code,
+          poc: row.poc,
+          sample_duration: row.sample_duration,
+          units_of_measure: row.units_of_measure,
+        }),
+        valueOf: row => row.sample_measurement,
+        dateOf: row => row.date_local,
+      })
+    : undefined;
+  // Rows are returned only when neither a file nor a summary replaces them
+  const returnRows = !writer && !aggregator;
+  const limit = maxRows !== undefined
+    ? new RowLimit<SampleData>(maxRows, { keepRows: returnRows })
+    : undefined;
+  let latestChange: string | undefined;
+
+  await writer?.open();
+  let result: StreamResult;
+  try {
+    result = await client.streamByYear<SampleData>(
+      endpoint,
+      requestParams,
+      row => {
+        if (limit && !limit.add(row)) {
+          return false;
+        }
+        writer?.add(row);
+        aggregator?.add(row);
+        if (row.date_of_last_change && (!latestChange || row.date_of_last_change > latestChange)) {
+          latestChange = row.date_of_last_change;
+        }
+      },
+      {
+        ready: writer && (() => writer.ready()),
+        done: limit && (() => limit.full),
+      }
+    );
+  } finally {
+    await writer?.close();
+  }
 
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: formatSampleDataResponse(response.Data, 'sampleData/byBox'),
-        },
-      ],
-    };
-  },
-};
+  const changes = summarizeChanges(
+    latestChange ? [{ date_of_last_change: latestChange }] : [],
+    changeDates
+  );
+  const years = summarizeYears(result.years);
+  const count = result.rows;
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({
+          message: `Streamed ${count} sample data records.`,
+          endpoint,
+          count,
+          ...(limit && result.stopped ? { truncated: true, max_rows: maxRows } : {}),
+          ...(writer ? { output_file: writer.path } : {}),
+          ...(changes ? { changes } : {}),
+          ...(years ? { years } : {}),
+          ...(aggregator ? { summary: aggregator.results() } : {}),
+          ...(limit && returnRows ? { data: limit.rows } : {}),
+        }),
+      },
+    ],
+  };
+}
 
 /**
- * Tool: Get sample data by CBSA
+ * Catalog handler for sample data services
  */
-const sampleDataByCbsa: McpTool = {
-  name: 'aqs_sample_data_by_cbsa',
-  description:
-    'Get raw sample data for all monitoring sites in a Core Based Statistical Area (CBSA). ' +
-    'WARNING: Sample data can be very large for metropolitan areas. ' +
-    'Strongly recommend limiting date ranges to one week or one month. ' +
-    'Returns individual sample measurements from all sites in the specified CBSA.',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      ...authProperties,
-      ...paramProperty,
-      ...dateProperties,
-      ...cbsaProperty,
-    },
-    required: ['param', 'bdate', 'edate', 'cbsa'],
-  },
-  handler: async (params: Record<string, string>) => {
-    const { email, key } = resolveCredentials(params.email, params.key);
-
-    validateDateFormat(params.bdate, 'bdate');
-    validateDateFormat(params.edate, 'edate');
-    validateDateRange(params.bdate, params.edate);
-
-    const response = await aqs<SampleData>('sampleData/byCBSA', {
-      email,
-      key,
-      param: params.param,
-      bdate: params.bdate,
-      edate: params.edate,
-      cbsa: params.cbsa,
-    });
-
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: formatSampleDataResponse(response.Data, 'sampleData/byCBSA'),
-        },
-      ],
-    };
+export const sampleHandlers: Record<string, CatalogHandler> = {
+  sample: {
+    properties: streamProperties,
+    handle: handleSampleRequest,
   },
 };
-
-/**
- * Export all sample data tools
- */
-export const sampleDataTools: McpTool[] = [
-  sampleDataBySite,
-  sampleDataByCounty,
-  sampleDataByState,
-  sampleDataByBox,
-  sampleDataByCbsa,
-];
-
-export default sampleDataTools;
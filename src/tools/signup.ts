@@ -1,26 +1,22 @@
 /**
- * Phase 1 MCP Tools: Signup and API availability
+ * Phase 1 MCP Tools: Signup, credentials, API availability, and metadata
  *
- * These tools handle EPA AQS API registration and health checks.
+ * These tools handle EPA AQS API registration, session credentials, health
+ * checks, and the metaData services that describe fields, API revisions,
+ * and known issues.
  */
 
-import { aqs, resolveCredentials } from '../client.js';
-
-/**
- * MCP Tool interface definition
- */
-export interface McpTool {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, { type: string; description: string }>;
-    required?: string[];
-  };
-  handler: (args: Record<string, unknown>) => Promise<{
-    content: Array<{ type: 'text'; text: string }>;
-  }>;
-}
+import { resolveCredentials } from '../client.js';
+import { clearSessionCredentials, credentialProperties, setSessionCredentials } from '../credentials.js';
+import { AqsNoDataError, describeError } from '../errors.js';
+import { registerSecret } from '../redact.js';
+import type {
+  FieldDefinition,
+  RevisionHistoryEntry,
+  KnownIssue,
+} from '../types.js';
+import { requiredArgument, stringArgument } from './tool.js';
+import type { McpTool } from './tool.js';
 
 /**
  * Response from signup endpoint
@@ -59,10 +55,10 @@ export const signupTool: McpTool = {
     },
     required: ['email'],
   },
-  handler: async (args) => {
-    const email = args.email as string;
+  handler: async (args, client) => {
+    const email = stringArgument(args, 'email');
 
-    if (!email || typeof email !== 'string') {
+    if (!email) {
       return {
         content: [
           {
@@ -86,7 +82,8 @@ export const signupTool: McpTool = {
     }
 
     try {
-      const response = await aqs<SignupResponse>('signup', { email });
+      registerSecret(email);
+      const response = await client.request<SignupResponse>('signup', { email });
 
       // The signup endpoint returns status in Header
       const header = response.Header?.[0];
@@ -99,7 +96,7 @@ export const signupTool: McpTool = {
               type: 'text',
               text:
                 `API key registration successful!\n\n` +
-                `An API key has been sent to: ${email}\n\n` +
+                `An API key has been sent to the email address provided.\n\n` +
                 `Please check your email (including spam folder) for the API key. ` +
                 `Once received, you can use it with the AQS_API_KEY environment variable ` +
                 `or pass it directly to API calls.`,
@@ -117,13 +114,11 @@ export const signupTool: McpTool = {
         ],
       };
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error occurred';
       return {
         content: [
           {
             type: 'text',
-            text: `Error during signup: ${errorMessage}`,
+            text: `Signup failed.\n\n${describeError(error)}`,
           },
         ],
       };
@@ -145,27 +140,18 @@ export const isAvailableTool: McpTool = {
   inputSchema: {
     type: 'object',
     properties: {
-      email: {
-        type: 'string',
-        description:
-          'Email address for API authentication (optional, falls back to AQS_EMAIL env var)',
-      },
-      key: {
-        type: 'string',
-        description:
-          'API key for authentication (optional, falls back to AQS_API_KEY env var)',
-      },
+      ...credentialProperties,
     },
   },
-  handler: async (args) => {
+  handler: async (args, client) => {
     try {
       // Resolve credentials from args or environment
       const { email, key } = resolveCredentials(
-        args.email as string | undefined,
-        args.key as string | undefined
+        stringArgument(args, 'email'),
+        stringArgument(args, 'key')
       );
 
-      const response = await aqs<IsAvailableResponse>('metaData/isAvailable', {
+      const response = await client.request<IsAvailableResponse>('metaData/isAvailable', {
         email,
         key,
       });
@@ -224,17 +210,267 @@ export const isAvailableTool: McpTool = {
             type: 'text',
             text:
               `EPA AQS API Status: UNAVAILABLE or ERROR\n\n` +
-              `Error: ${errorMessage}`,
+              describeError(error),
+          },
+        ],
+      };
+    }
+  },
+};
+
+/**
+ * Tool: aqs_fields_by_service
+ *
+ * Get the data dictionary for one AQS service.
+ */
+export const fieldsByServiceTool: McpTool = {
+  name: 'aqs_fields_by_service',
+  description:
+    'Get the data dictionary for an AQS service: every field it returns with its definition. ' +
+    'Use this to explain what a field such as observation_percent, arithmetic_mean, or ' +
+    'sample_duration_code means instead of guessing. Optionally filter to a single field.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...credentialProperties,
+      service: {
+        type: 'string',
+        description:
+          'AQS service name, e.g. "sampleData", "dailyData", "quarterlyData", "annualData", ' +
+          '"monitors", "qaBlanks", "qaOnePointQcRawData", "transactionsSample"',
+      },
+      field: {
+        type: 'string',
+        description:
+          'Optional field name to look up (e.g. "observation_percent"). Case-insensitive.',
+      },
+    },
+    required: ['service'],
+  },
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+
+    const service = requiredArgument(args, 'service');
+    const response = await client.request<FieldDefinition>('metaData/fieldsByService', {
+      email,
+      key,
+      service,
+    });
+
+    const field = stringArgument(args, 'field')?.toLowerCase();
+    const fields = field
+      ? response.Data.filter(f => f.field_name.toLowerCase() === field)
+      : response.Data;
+
+    if (fields.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: field
+              ? `Field "${args.field}" is not returned by the ${service} service.`
+              : `No field definitions found for service "${service}".`,
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ service, count: fields.length, fields }, null, 2),
+        },
+      ],
+    };
+  },
+};
+
+/**
+ * Tool: aqs_revision_history
+ *
+ * Get the change log of the AQS API.
+ */
+export const revisionHistoryTool: McpTool = {
+  name: 'aqs_revision_history',
+  description:
+    'Get the revision history (change log) of the EPA AQS API, including new services, ' +
+    'new fields, and changed behavior. Useful when a field or endpoint behaves differently than expected.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...credentialProperties,
+    },
+  },
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+
+    const response = await client.request<RevisionHistoryEntry>('metaData/revisionHistory', {
+      email,
+      key,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(response.Data, null, 2) }],
+    };
+  },
+};
+
+/**
+ * Tool: aqs_known_issues
+ *
+ * Get known issues with AQS data.
+ */
+export const knownIssuesTool: McpTool = {
+  name: 'aqs_known_issues',
+  description:
+    'Get the list of known issues with AQS data and the API, as published by EPA. ' +
+    'Check this before treating unusual values or missing data as real.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...credentialProperties,
+    },
+  },
+  handler: async (args, client) => {
+    const { email, key } = resolveCredentials(
+      stringArgument(args, 'email'),
+      stringArgument(args, 'key')
+    );
+
+    // An empty list is the expected answer, not a failure
+    const response = await client
+      .request<KnownIssue>('metaData/issues', { email, key })
+      .catch(error => {
+        if (error instanceof AqsNoDataError) {
+          return { Data: [] as KnownIssue[] };
+        }
+        throw error;
+      });
+
+    if (response.Data.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No known issues are currently listed.' }],
+      };
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(response.Data, null, 2) }],
+    };
+  },
+};
+
+/**
+ * Tool: aqs_set_credentials
+ *
+ * Store credentials in memory for the rest of the session, so they do not
+ * have to be repeated (or pasted) in every call.
+ */
+export const setCredentialsTool: McpTool = {
+  name: 'aqs_set_credentials',
+  description:
+    'Store AQS credentials for the rest of this session so later tool calls can omit email and key. ' +
+    'Credentials are kept in memory only and are never echoed back. ' +
+    'Pass profile to make an existing profile the session default, save_as to store them under a profile name, ' +
+    'or clear to forget stored credentials.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      email: {
+        type: 'string',
+        description: 'Registered email address for the AQS API',
+      },
+      key: {
+        type: 'string',
+        description: 'AQS API key',
+      },
+      save_as: {
+        type: 'string',
+        description:
+          'Optional profile name; other tools then use these credentials with profile=<name>. ' +
+          'Without it, they become the default for calls that give no credentials.',
+      },
+      clear: {
+        type: 'boolean',
+        description: 'Forget the stored credentials (of save_as, or the session default) instead of storing new ones',
+      },
+    },
+  },
+  handler: async (args) => {
+    const saveAs = stringArgument(args, 'save_as');
+    const target = saveAs ? `profile "${saveAs}"` : 'the session default';
+
+    if (args.clear === true) {
+      const removed = clearSessionCredentials(saveAs);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: removed
+              ? `Cleared the credentials stored for ${target}.`
+              : `No credentials were stored for ${target}.`,
+          },
+        ],
+      };
+    }
+
+    const email = stringArgument(args, 'email');
+    const key = stringArgument(args, 'key');
+
+    if (!email || !key) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: email and key are required, or a profile to copy them from.',
           },
         ],
       };
     }
+
+    // Validate email format (basic check)
+    if (!email.includes('@') || !email.includes('.')) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Please provide a valid email address.',
+          },
+        ],
+      };
+    }
+
+    setSessionCredentials({ email, key }, saveAs);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `Credentials stored for ${target}. ` +
+            `They are kept in memory until the server stops and are not shown in any output.`,
+        },
+      ],
+    };
   },
 };
 
 /**
  * All signup-related tools exported as an array
  */
-export const signupTools: McpTool[] = [signupTool, isAvailableTool];
+export const signupTools: McpTool[] = [
+  signupTool,
+  setCredentialsTool,
+  isAvailableTool,
+  fieldsByServiceTool,
+  revisionHistoryTool,
+  knownIssuesTool,
+];
 
 export default signupTools;
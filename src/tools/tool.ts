@@ -0,0 +1,63 @@
+/**
+ * Shape of the MCP tools exported by the tool modules
+ */
+
+import type { AqsClient } from '../client.js';
+import { AqsValidationError, describeError, errorCategory } from '../errors.js';
+
+/**
+ * Text result of a tool call
+ *
+ * A type alias rather than an interface, so it satisfies the SDK's
+ * index-signature result types.
+ */
+export type ToolResult = {
+  content: Array<{ type: 'text'; text: string }>;
+};
+
+/**
+ * Result of a tool call that threw
+ *
+ * An empty result is an answer, not a failure, so only no_data is not
+ * flagged as an error.
+ */
+export function errorResult(error: unknown): ToolResult & { isError: boolean } {
+  return {
+    content: [{ type: 'text', text: describeError(error) }],
+    isError: errorCategory(error) !== 'no_data',
+  };
+}
+
+/**
+ * MCP tool definition with its handler
+ */
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+  /** Receives the arguments validated against inputSchema, with its types */
+  handler: (params: Record<string, unknown>, client: AqsClient) => Promise<ToolResult>;
+}
+
+/**
+ * Value of a string argument, or undefined when it is omitted
+ */
+export function stringArgument(params: Record<string, unknown>, name: string): string | undefined {
+  const value = params[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Value of a string argument that must be given
+ */
+export function requiredArgument(params: Record<string, unknown>, name: string): string {
+  const value = stringArgument(params, name);
+  if (value === undefined) {
+    throw new AqsValidationError(`Invalid argument: ${name} is required.`);
+  }
+  return value;
+}
@@ -0,0 +1,258 @@
+/**
+ * Transaction Data handlers for the EPA AQS API service catalog
+ *
+ * Transaction services return data in the AQS transaction format used to
+ * submit and resubmit data to AQS. Results can be returned as JSON, as raw
+ * pipe-delimited transaction lines, or written to disk as a transaction file
+ * ready for review or upload.
+ */
+
+import { resolve } from 'node:path';
+
+import { summarizeYears } from '../client.js';
+import type { AqsClient } from '../client.js';
+import type { SchemaProperty } from '../catalog.js';
+import { AqsValidationError } from '../errors.js';
+import { createOutputFile, outputFileError } from '../stream.js';
+import type {
+  TransactionSample,
+  TransactionQaAnnualPerformanceEvaluation,
+} from '../types.js';
+import type { CatalogHandler, CatalogRequest } from './catalog.js';
+import { stringArgument } from './tool.js';
+import type { ToolResult } from './tool.js';
+
+/**
+ * Column order of the RD (raw data) transaction
+ */
+const SAMPLE_TRANSACTION_COLUMNS: Array<keyof TransactionSample> = [
+  'transaction_type',
+  'action_indicator',
+  'state_code',
+  'county_code',
+  'site_number',
+  'parameter',
+  'poc',
+  'sample_duration_code',
+  'unit_code',
+  'method_code',
+  'sample_date',
+  'sample_begin_time',
+  'reported_sample_value',
+  'null_data_code',
+  'collection_frequency_code',
+  'monitor_protocol_id',
+  'qualifier_code_1',
+  'qualifier_code_2',
+  'qualifier_code_3',
+  'qualifier_code_4',
+  'qualifier_code_5',
+  'qualifier_code_6',
+  'qualifier_code_7',
+  'qualifier_code_8',
+  'qualifier_code_9',
+  'qualifier_code_10',
+  'alternate_method_detection_limit',
+  'uncertainty_value',
+];
+
+/**
+ * Column order of the QA annual performance evaluation transaction
+ */
+const QA_ANNUAL_PE_TRANSACTION_COLUMNS: Array<
+  keyof TransactionQaAnnualPerformanceEvaluation
+> = [
+  'transaction_type',
+  'action_indicator',
+  'assessment_type',
+  'performing_agency',
+  'state_code',
+  'county_code',
+  'site_number',
+  'parameter_code',
+  'poc',
+  'assessment_date',
+  'assessment_number',
+  'monitor_method_code',
+  'reported_unit',
+  'level1_monitor_concentration',
+  'level1_assessment_concentration',
+  'level2_monitor_concentration',
+  'level2_assessment_concentration',
+  'level3_monitor_concentration',
+  'level3_assessment_concentration',
+  'level4_monitor_concentration',
+  'level4_assessment_concentration',
+  'level5_monitor_concentration',
+  'level5_assessment_concentration',
+  'level6_monitor_concentration',
+  'level6_assessment_concentration',
+  'level7_monitor_concentration',
+  'level7_assessment_concentration',
+  'level8_monitor_concentration',
+  'level8_assessment_concentration',
+  'level9_monitor_concentration',
+  'level9_assessment_concentration',
+  'level10_monitor_concentration',
+  'level10_assessment_concentration',
+];
+
+/**
+ * Common input schema properties for transaction output
+ */
+const outputProperties: Record<string, SchemaProperty> = {
+  format: {
+    type: 'string',
+    enum: ['json', 'transaction'],
+    description:
+      'Output format: "json" (default) returns the records as JSON, "transaction" returns the raw ' +
+      'pipe-delimited transaction lines as text.',
+  },
+  output_file: {
+    type: 'string',
+    description:
+      'Optional path of a file to write the pipe-delimited transactions to. When set, the tool writes ' +
+      'one transaction per line and returns a summary instead of the JSON rows. The file must not exist yet.',
+  },
+};
+
+/**
+ * Convert transaction records to pipe-delimited lines in column order
+ */
+function toTransactionLines<T>(rows: T[], columns: Array<keyof T>): string[] {
+  return rows.map(row =>
+    columns
+      .map(column => {
+        const value = row[column];
+        return value === null || value === undefined ? '' : String(value);
+      })
+      .join('|')
+  );
+}
+
+/**
+ * Write pipe-delimited transaction lines to a new file
+ */
+async function writeTransactionFile(path: string, lines: string[]): Promise<string> {
+  const target = resolve(path);
+  const handle = await createOutputFile(target);
+  try {
+    await handle.writeFile(lines.length > 0 ? lines.join('\n') + '\n' : '', 'utf8');
+  } catch (error) {
+    throw outputFileError(target, error);
+  } finally {
+    await handle.close();
+  }
+  return target;
+}
+
+/**
+ * Common handler logic for transaction endpoints
+ */
+async function handleTransactionRequest<T>(
+  client: AqsClient,
+  { endpoint, params, requestParams }: CatalogRequest,
+  columns: Array<keyof T>
+): Promise<ToolResult> {
+  const format = stringArgument(params, 'format');
+  const outputFile = stringArgument(params, 'output_file');
+
+  if (format && format !== 'json' && format !== 'transaction') {
+    throw new AqsValidationError(`format must be "json" or "transaction". Got: ${format}`);
+  }
+
+  const response = await client.requestByYear<T>(endpoint, requestParams);
+
+  const data = response.Data ?? [];
+  const years = summarizeYears(response.years);
+
+  if (outputFile) {
+    const target = await writeTransactionFile(outputFile, toTransactionLines(data, columns));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              message: `Wrote ${data.length} transactions to ${target}.`,
+              endpoint,
+              count: data.length,
+              output_file: target,
+              ...(years ? { years } : {}),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  if (format === 'transaction' && data.length > 0) {
+    return {
+      content: [
+        { type: 'text', text: toTransactionLines(data, columns).join('\n') },
+      ],
+    };
+  }
+
+  if (data.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              message: 'No transaction data found for the specified parameters.',
+              endpoint,
+              count: 0,
+              ...(years ? { years } : {}),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            message: `Retrieved ${data.length} transaction records.`,
+            endpoint,
+            count: data.length,
+            ...(years ? { years } : {}),
+            data,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Catalog handlers for transaction services, by transaction layout
+ */
+export const transactionHandlers: Record<string, CatalogHandler> = {
+  'transactions-sample': {
+    properties: outputProperties,
+    handle: (client, request) =>
+      handleTransactionRequest<TransactionSample>(client, request, SAMPLE_TRANSACTION_COLUMNS),
+  },
+  'transactions-qa-annual-performance-evaluations': {
+    properties: outputProperties,
+    handle: (client, request) =>
+      handleTransactionRequest<TransactionQaAnnualPerformanceEvaluation>(
+        client,
+        request,
+        QA_ANNUAL_PE_TRANSACTION_COLUMNS
+      ),
+  },
+};
@@ -10,6 +10,7 @@ export interface AqsHeader {
   request_time: string;
   url: string;
   rows?: number;
+  error?: string[];
 }
 
 /**
@@ -20,6 +21,35 @@ export interface AqsResponse<T = unknown> {
   Data: T[];
 }
 
+/**
+ * Outcome of one calendar-year slice of a multi-year request
+ */
+export interface YearResult {
+  year: number;
+  bdate: string;
+  edate: string;
+  rows: number;
+  error?: string;
+}
+
+/**
+ * Response merged from per-year AQS requests
+ */
+export interface MultiYearResponse<T = unknown> extends AqsResponse<T> {
+  years: YearResult[];
+}
+
+/**
+ * Outcome of a streamed request, whose rows went to a row handler
+ */
+export interface StreamResult {
+  Header: AqsHeader[];
+  rows: number;
+  /** True when the consumer stopped the stream before its last row */
+  stopped: boolean;
+  years: YearResult[];
+}
+
 /**
  * State reference data
  */
@@ -52,6 +82,30 @@ export interface Cbsa {
   value_represented: string;
 }
 
+/**
+ * Primary Quality Assurance Organization (PQAO)
+ */
+export interface Pqao {
+  code: string;
+  value_represented: string;
+}
+
+/**
+ * Monitoring Agency (MA)
+ */
+export interface MonitoringAgency {
+  code: string;
+  value_represented: string;
+}
+
+/**
+ * Sample duration (e.g., "1" for 1 hour, "7" for 24 hour)
+ */
+export interface Duration {
+  code: string;
+  value_represented: string;
+}
+
 /**
  * Parameter class (e.g., "CRITERIA", "AIR TOXICS")
  */
@@ -68,6 +122,33 @@ export interface Parameter {
   value_represented: string;
 }
 
+/**
+ * Field definition returned by the metaData/fieldsByService endpoint
+ */
+export interface FieldDefinition {
+  field_name: string;
+  field_description: string;
+}
+
+/**
+ * API change log entry returned by the metaData/revisionHistory endpoint
+ */
+export interface RevisionHistoryEntry {
+  date: string;
+  version?: string;
+  description: string;
+}
+
+/**
+ * Known data issue returned by the metaData/issues endpoint
+ */
+export interface KnownIssue {
+  issue_number?: number;
+  issue: string;
+  status?: string;
+  date_identified?: string;
+}
+
 /**
  * Monitor information
  */
@@ -215,6 +296,7 @@ export interface QuarterlySummary {
   city_name?: string;
   cbsa_code?: string;
   cbsa_name?: string;
+  date_of_last_change?: string;
 }
 
 /**
@@ -277,6 +359,272 @@ export interface AnnualSummary {
   certification_indicator?: string;
 }
 
+/**
+ * QA blank sample record (field, trip, and lab blanks)
+ */
+export interface QaBlank {
+  state_code: string;
+  county_code: string;
+  site_number: string;
+  parameter_code: string;
+  poc: number;
+  latitude: number;
+  longitude: number;
+  datum: string;
+  parameter: string;
+  sample_date: string;
+  blank_type: string;
+  value: number;
+  units_of_measure: string;
+  method_code?: string;
+  method?: string;
+  qualifier?: string;
+  state_name?: string;
+  county_name?: string;
+  pqao_code?: string;
+  pqao?: string;
+  date_of_last_change?: string;
+}
+
+/**
+ * QA collocated assessment record (primary and collocated sampler pair)
+ */
+export interface QaCollocatedAssessment {
+  state_code: string;
+  county_code: string;
+  site_number: string;
+  parameter_code: string;
+  primary_poc: number;
+  collocated_poc: number;
+  latitude: number;
+  longitude: number;
+  datum: string;
+  parameter: string;
+  assessment_date: string;
+  primary_sample_value: number | null;
+  collocated_sample_value: number | null;
+  units_of_measure: string;
+  primary_method_code?: string;
+  primary_method?: string;
+  collocated_method_code?: string;
+  collocated_method?: string;
+  state_name?: string;
+  county_name?: string;
+  pqao_code?: string;
+  pqao?: string;
+  date_of_last_change?: string;
+}
+
+/**
+ * QA flow rate verification record (routine one-point flow check)
+ */
+export interface QaFlowRateVerification {
+  state_code: string;
+  county_code: string;
+  site_number: string;
+  parameter_code: string;
+  poc: number;
+  latitude: number;
+  longitude: number;
+  datum: string;
+  parameter: string;
+  assessment_date: string;
+  monitor_flow_rate: number | null;
+  audit_flow_rate: number | null;
+  design_flow_rate?: number | null;
+  units_of_measure: string;
+  method_code?: string;
+  method?: string;
+  state_name?: string;
+  county_name?: string;
+  pqao_code?: string;
+  pqao?: string;
+  date_of_last_change?: string;
+}
+
+/**
+ * QA flow rate audit record (semi-annual audit with an independent standard)
+ */
+export interface QaFlowRateAudit {
+  state_code: string;
+  county_code: string;
+  site_number: string;
+  parameter_code: string;
+  poc: number;
+  latitude: number;
+  longitude: number;
+  datum: string;
+  parameter: string;
+  assessment_date: string;
+  monitor_flow_rate: number | null;
+  audit_flow_rate: number | null;
+  design_flow_rate?: number | null;
+  units_of_measure: string;
+  performing_agency?: string;
+  method_code?: string;
+  method?: string;
+  state_name?: string;
+  county_name?: string;
+  pqao_code?: string;
+  pqao?: string;
+  date_of_last_change?: string;
+}
+
+/**
+ * QA one-point quality control check record for gaseous monitors
+ */
+export interface QaOnePointQc {
+  state_code: string;
+  county_code: string;
+  site_number: string;
+  parameter_code: string;
+  poc: number;
+  latitude: number;
+  longitude: number;
+  datum: string;
+  parameter: string;
+  assessment_date: string;
+  monitor_concentration: number | null;
+  assessment_concentration: number | null;
+  units_of_measure: string;
+  method_code?: string;
+  method?: string;
+  state_name?: string;
+  county_name?: string;
+  pqao_code?: string;
+  pqao?: string;
+  date_of_last_change?: string;
+}
+
+/**
+ * QA Performance Evaluation Program (PEP) audit record for PM2.5
+ */
+export interface QaPepAudit {
+  state_code: string;
+  county_code: string;
+  site_number: string;
+  parameter_code: string;
+  poc: number;
+  latitude: number;
+  longitude: number;
+  datum: string;
+  parameter: string;
+  assessment_date: string;
+  sampler_concentration: number | null;
+  pep_concentration: number | null;
+  units_of_measure: string;
+  performing_agency?: string;
+  method_code?: string;
+  method?: string;
+  state_name?: string;
+  county_name?: string;
+  pqao_code?: string;
+  pqao?: string;
+  date_of_last_change?: string;
+}
+
+/**
+ * QA annual performance evaluation record (one row per audit level)
+ */
+export interface QaAnnualPerformanceEvaluation {
+  state_code: string;
+  county_code: string;
+  site_number: string;
+  parameter_code: string;
+  poc: number;
+  latitude: number;
+  longitude: number;
+  datum: string;
+  parameter: string;
+  assessment_date: string;
+  assessment_number?: number;
+  audit_level: number;
+  monitor_concentration: number | null;
+  assessment_concentration: number | null;
+  units_of_measure: string;
+  performing_agency?: string;
+  method_code?: string;
+  method?: string;
+  state_name?: string;
+  county_name?: string;
+  pqao_code?: string;
+  pqao?: string;
+  date_of_last_change?: string;
+}
+
+/**
+ * Sample data record in AQS RD (raw data) transaction format
+ */
+export interface TransactionSample {
+  transaction_type: string;
+  action_indicator: string;
+  state_code: string;
+  county_code: string;
+  site_number: string;
+  parameter: string;
+  poc: string;
+  sample_duration_code: string;
+  unit_code: string;
+  method_code: string;
+  sample_date: string;
+  sample_begin_time: string;
+  reported_sample_value: string | null;
+  null_data_code: string | null;
+  collection_frequency_code: string | null;
+  monitor_protocol_id: string | null;
+  qualifier_code_1: string | null;
+  qualifier_code_2: string | null;
+  qualifier_code_3: string | null;
+  qualifier_code_4: string | null;
+  qualifier_code_5: string | null;
+  qualifier_code_6: string | null;
+  qualifier_code_7: string | null;
+  qualifier_code_8: string | null;
+  qualifier_code_9: string | null;
+  qualifier_code_10: string | null;
+  alternate_method_detection_limit: string | null;
+  uncertainty_value: string | null;
+}
+
+/**
+ * Annual performance evaluation record in AQS QA transaction format
+ */
+export interface TransactionQaAnnualPerformanceEvaluation {
+  transaction_type: string;
+  action_indicator: string;
+  assessment_type: string;
+  performing_agency: string;
+  state_code: string;
+  county_code: string;
+  site_number: string;
+  parameter_code: string;
+  poc: string;
+  assessment_date: string;
+  assessment_number: string;
+  monitor_method_code: string;
+  reported_unit: string;
+  level1_monitor_concentration: string | null;
+  level1_assessment_concentration: string | null;
+  level2_monitor_concentration: string | null;
+  level2_assessment_concentration: string | null;
+  level3_monitor_concentration: string | null;
+  level3_assessment_concentration: string | null;
+  level4_monitor_concentration: string | null;
+  level4_assessment_concentration: string | null;
+  level5_monitor_concentration: string | null;
+  level5_assessment_concentration: string | null;
+  level6_monitor_concentration: string | null;
+  level6_assessment_concentration: string | null;
+  level7_monitor_concentration: string | null;
+  level7_assessment_concentration: string | null;
+  level8_monitor_concentration: string | null;
+  level8_assessment_concentration: string | null;
+  level9_monitor_concentration: string | null;
+  level9_assessment_concentration: string | null;
+  level10_monitor_concentration: string | null;
+  level10_assessment_concentration: string | null;
+}
+
 /**
  * Common parameters for most API requests
  */
@@ -334,3 +682,17 @@ export interface BoxParams extends DateRangeParams {
 export interface CbsaParams extends DateRangeParams {
   cbsa: string;
 }
+
+/**
+ * Parameters for Primary Quality Assurance Organization queries
+ */
+export interface PqaoParams extends DateRangeParams {
+  pqao: string;
+}
+
+/**
+ * Parameters for Monitoring Agency queries
+ */
+export interface MaParams extends DateRangeParams {
+  agency: string;
+}
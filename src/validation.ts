@@ -0,0 +1,265 @@
+/**
+ * Validation of tool arguments against their input schemas
+ *
+ * MCP clients do not enforce a tool's inputSchema, and AQS answers a
+ * malformed code with an opaque failure. Every call is therefore checked
+ * before its handler runs: required arguments, types, enums, and the
+ * formats of AQS codes, dates, and coordinates. Codes written without
+ * their leading zeros ("6" for California) are padded, so handlers always
+ * see canonical values.
+ */
+
+import { AqsValidationError } from './errors.js';
+
+/**
+ * Format of an argument that has the same meaning in every tool
+ */
+interface ArgumentFormat {
+  pattern: RegExp;
+  /** What a valid value looks like, completing "<name> must be ..." */
+  expected: string;
+  /** Width that shorter digit-only values are zero-padded to */
+  padTo?: number;
+  /** Allowed range of a numeric value */
+  range?: [number, number];
+  /** Canonical spelling of a value, applied before the pattern check */
+  normalize?: (value: string) => string;
+}
+
+/**
+ * Subset of a JSON schema property that is checked
+ */
+interface PropertySchema {
+  type?: string;
+  enum?: string[];
+  pattern?: string;
+  minimum?: number;
+}
+
+/**
+ * Input schema of a tool
+ */
+interface InputSchema {
+  properties: Record<string, unknown>;
+  required?: string[];
+}
+
+const DATE_FORMAT: ArgumentFormat = {
+  pattern: /^\d{8}$/,
+  expected: 'a date in YYYYMMDD format (e.g., "20230101")',
+};
+
+const LATITUDE_FORMAT: ArgumentFormat = {
+  pattern: /^[-+]?(\d+(\.\d*)?|\.\d+)$/,
+  expected: 'a latitude in decimal degrees between -90 and 90',
+  range: [-90, 90],
+};
+
+const LONGITUDE_FORMAT: ArgumentFormat = {
+  pattern: /^[-+]?(\d+(\.\d*)?|\.\d+)$/,
+  expected: 'a longitude in decimal degrees between -180 and 180',
+  range: [-180, 180],
+};
+
+/**
+ * Formats of AQS codes, dates, and coordinates, by argument name
+ */
+const ARGUMENT_FORMATS: Record<string, ArgumentFormat> = {
+  state: {
+    pattern: /^\d{2}$/,
+    padTo: 2,
+    expected: 'a two-digit FIPS state code (e.g., "06" for California)',
+  },
+  county: {
+    pattern: /^\d{3}$/,
+    padTo: 3,
+    expected: 'a three-digit FIPS county code (e.g., "037" for Los Angeles County)',
+  },
+  site: {
+    pattern: /^\d{4}$/,
+    padTo: 4,
+    expected: 'a four-digit AQS site number (e.g., "0002")',
+  },
+  pqao: {
+    pattern: /^\d{4}$/,
+    padTo: 4,
+    expected: 'a four-digit PQAO code (use aqs_list_pqaos to look up codes)',
+  },
+  agency: {
+    pattern: /^\d{4}$/,
+    padTo: 4,
+    expected: 'a four-digit Monitoring Agency code (use aqs_list_monitoring_agencies to look up codes)',
+  },
+  // No CBSA code starts with 0, so a shorter one is mistyped, not unpadded
+  cbsa: {
+    pattern: /^\d{5}$/,
+    expected: 'a five-digit CBSA code (e.g., "31080")',
+  },
+  param: {
+    pattern: /^\d{5}(,\d{5}){0,4}$/,
+    expected: 'one to five comma-separated five-digit parameter codes (e.g., "44201" or "44201,42401")',
+    normalize: value => value.replace(/\s+/g, ''),
+  },
+  bdate: DATE_FORMAT,
+  edate: DATE_FORMAT,
+  cbdate: DATE_FORMAT,
+  cedate: DATE_FORMAT,
+  minlat: LATITUDE_FORMAT,
+  maxlat: LATITUDE_FORMAT,
+  minlon: LONGITUDE_FORMAT,
+  maxlon: LONGITUDE_FORMAT,
+};
+
+/**
+ * Add the patterns of known argument formats to an input schema
+ *
+ * The schema also declares that no other arguments are accepted, as
+ * validateArguments rejects them.
+ */
+export function withArgumentPatterns<S extends InputSchema>(
+  inputSchema: S
+): S & { additionalProperties: false } {
+  const properties: Record<string, unknown> = {};
+  for (const [name, property] of Object.entries(inputSchema.properties)) {
+    const format = ARGUMENT_FORMATS[name];
+    const schema = property as PropertySchema;
+    properties[name] = format && schema.type === 'string' && !schema.pattern
+      ? { ...schema, pattern: format.pattern.source }
+      : property;
+  }
+  return { ...inputSchema, properties, additionalProperties: false };
+}
+
+/**
+ * Display a rejected value in an error message
+ */
+function show(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Check and normalize one string argument
+ */
+function checkString(name: string, value: string, schema: PropertySchema): string {
+  const format = ARGUMENT_FORMATS[name];
+  let text = value.trim();
+
+  if (format?.normalize) {
+    text = format.normalize(text);
+  }
+  // Leading zeros are the only thing that can be missing from a digit-only code
+  if (format?.padTo && /^\d+$/.test(text) && text.length < format.padTo) {
+    text = text.padStart(format.padTo, '0');
+  }
+
+  if (format && !format.pattern.test(text)) {
+    throw new Error(`must be ${format.expected}. Got: ${show(value)}`);
+  }
+  if (format?.range) {
+    const [min, max] = format.range;
+    const number = Number(text);
+    if (number < min || number > max) {
+      throw new Error(`must be between ${min} and ${max}. Got: ${show(value)}`);
+    }
+  }
+  if (!format && schema.pattern && !new RegExp(schema.pattern).test(text)) {
+    throw new Error(`must match ${schema.pattern}. Got: ${show(value)}`);
+  }
+  if (schema.enum && !schema.enum.includes(text)) {
+    throw new Error(`must be one of ${schema.enum.map(show).join(', ')}. Got: ${show(value)}`);
+  }
+
+  return text;
+}
+
+/**
+ * Check and normalize one argument against its schema
+ */
+function checkArgument(name: string, value: unknown, schema: PropertySchema): unknown {
+  switch (schema.type) {
+    case 'string':
+      // Codes are often given as numbers, e.g. state: 6
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return checkString(name, String(value), schema);
+      }
+      if (typeof value !== 'string') {
+        throw new Error(`must be a string. Got: ${show(value)}`);
+      }
+      return checkString(name, value, schema);
+
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        throw new Error(`must be a number. Got: ${show(value)}`);
+      }
+      if (schema.type === 'integer' && !Number.isInteger(number)) {
+        throw new Error(`must be a whole number. Got: ${show(value)}`);
+      }
+      if (schema.minimum !== undefined && number < schema.minimum) {
+        throw new Error(`must be at least ${schema.minimum}. Got: ${show(value)}`);
+      }
+      return number;
+    }
+
+    case 'boolean':
+      if (value === 'true' || value === 'false') {
+        return value === 'true';
+      }
+      if (typeof value !== 'boolean') {
+        throw new Error(`must be true or false. Got: ${show(value)}`);
+      }
+      return value;
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Validate tool arguments against the tool's input schema
+ *
+ * Returns the arguments with codes zero-padded and types normalized.
+ * Throws AqsValidationError naming every invalid argument.
+ */
+export function validateArguments(
+  tool: string,
+  inputSchema: InputSchema,
+  args: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const problems: string[] = [];
+  const result: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(args)) {
+    const schema = inputSchema.properties[name] as PropertySchema | undefined;
+    if (!schema) {
+      problems.push(`${name} is not an argument of ${tool}`);
+      continue;
+    }
+    // Empty optional arguments are treated as omitted
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+
+    try {
+      result[name] = checkArgument(name, value, schema);
+    } catch (error) {
+      problems.push(`${name} ${(error as Error).message}`);
+    }
+  }
+
+  for (const name of inputSchema.required ?? []) {
+    if (!(name in result) && !problems.some(problem => problem.startsWith(`${name} `))) {
+      problems.push(`${name} is required`);
+    }
+  }
+
+  if (problems.length === 1) {
+    throw new AqsValidationError(`Invalid argument: ${problems[0]}.`);
+  }
+  if (problems.length > 1) {
+    throw new AqsValidationError(`Invalid arguments:\n- ${problems.join('\n- ')}`);
+  }
+
+  return result;
+}
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, beforeEach, test } from 'node:test';
+
+import { ResponseCache } from '../dist/cache.js';
+import { Logger } from '../dist/logger.js';
+
+const RESPONSE = { Header: [{ status: 'Success' }], Data: [{ code: '06' }] };
+const THIS_YEAR = `${new Date().getUTCFullYear()}1231`;
+const CERTIFIED = { param: '44201', bdate: '20100101', edate: '20101231', state: '06' };
+const RECENT = { param: '44201', bdate: `${THIS_YEAR.slice(0, 4)}0101`, edate: THIS_YEAR, state: '06' };
+
+// Files that share the directory with the cache but are not entries
+const FOREIGN_FILES = {
+  'package.json': '{"name": "unrelated"}',
+  'null.json': 'null',
+  [`${'a'.repeat(64)}.json`]: 'null',
+  [`${'b'.repeat(64)}.json`]: '{"endpoint": "list/states"}',
+  [`${'c'.repeat(64)}.json`]: 'not json',
+  'notes.txt': 'keep',
+};
+
+let directory;
+
+beforeEach(async () => {
+  if (directory) {
+    await rm(directory, { recursive: true, force: true });
+  }
+  directory = await mkdtemp(join(tmpdir(), 'aqs-cache-'));
+});
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function addForeignFiles() {
+  for (const [name, content] of Object.entries(FOREIGN_FILES)) {
+    await writeFile(join(directory, name), content);
+  }
+}
+
+async function assertForeignFilesKept() {
+  const names = await readdir(directory);
+  for (const name of Object.keys(FOREIGN_FILES)) {
+    assert.ok(names.includes(name), `${name} was removed`);
+  }
+}
+
+test('entries are served until their lifetime ends', async () => {
+  const cache = new ResponseCache({ directory, certifiedTtlMs: 60_000, recentTtlMs: 300 });
+  await cache.set('sampleData/byState', CERTIFIED, RESPONSE);
+  await cache.set('sampleData/byState', RECENT, RESPONSE);
+
+  assert.deepEqual(await cache.get('sampleData/byState', RECENT), RESPONSE);
+  await sleep(400);
+  assert.equal(await cache.get('sampleData/byState', RECENT), undefined);
+  assert.deepEqual(await cache.get('sampleData/byState', CERTIFIED), RESPONSE);
+
+  const stats = await cache.stats();
+  assert.equal(stats.entries, 2);
+  assert.equal(stats.expired, 1);
+  assert.deepEqual(stats.session, { hits: 2, misses: 1 });
+});
+
+test('credentials do not change the cache key', async () => {
+  const cache = new ResponseCache({ directory });
+  await cache.set('list/states', { email: 'a@example.com', key: 'one' }, RESPONSE);
+
+  assert.deepEqual(await cache.get('list/states', { email: 'b@example.com', key: 'two' }), RESPONSE);
+  assert.equal(await cache.get('list/counties', { state: '06' }), undefined);
+});
+
+test('live endpoints are never cached', async () => {
+  const cache = new ResponseCache({ directory });
+  await cache.set('metaData/isAvailable', {}, RESPONSE);
+
+  assert.equal(await cache.get('metaData/isAvailable', {}), undefined);
+  assert.equal((await cache.stats()).entries, 0);
+});
+
+test('purge removes only the entries its filters select', async () => {
+  const cache = new ResponseCache({ directory, certifiedTtlMs: 60_000, recentTtlMs: 1, referenceTtlMs: 60_000 });
+  await cache.set('sampleData/byState', CERTIFIED, RESPONSE);
+  await cache.set('sampleData/byState', RECENT, RESPONSE);
+  await cache.set('list/states', {}, RESPONSE);
+  await sleep(10);
+
+  assert.equal(await cache.purge({ expiredOnly: true }), 1);
+  assert.equal(await cache.purge({ endpoint: 'list/counties' }), 0);
+  assert.equal(await cache.purge({ endpoint: 'list/states' }), 1);
+  assert.deepEqual((await cache.stats()).byEndpoint, { 'sampleData/byState': 1 });
+  assert.equal(await cache.purge(), 1);
+  assert.equal((await cache.stats()).entries, 0);
+});
+
+test('files other than cache entries are neither counted nor removed', async () => {
+  const cache = new ResponseCache({ directory });
+  await addForeignFiles();
+  await cache.set('list/states', {}, RESPONSE);
+
+  const stats = await cache.stats();
+  assert.equal(stats.entries, 1);
+  assert.deepEqual(stats.byEndpoint, { 'list/states': 1 });
+
+  assert.equal(await cache.purge(), 1);
+  await assertForeignFilesKept();
+  assert.equal((await readdir(directory)).length, Object.keys(FOREIGN_FILES).length);
+});
+
+test('read and write failures are logged to the calling request\'s logger', async () => {
+  // A file where the cache directory should be makes every write fail
+  const blocked = join(directory, 'blocked');
+  await writeFile(blocked, '');
+  const cache = new ResponseCache({ directory: blocked });
+  const lines = [];
+  const log = new Logger({ level: 'warn', write: line => lines.push(line) });
+
+  await cache.set('list/states', {}, RESPONSE, log);
+  assert.equal(await cache.get('list/states', {}, log), undefined);
+
+  assert.equal(lines.length, 2);
+  assert.match(lines[0], /Cache write failed/);
+  assert.match(lines[1], /Cache read failed/);
+});
@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, test } from 'node:test';
+
+import { AqsClient } from '../dist/client.js';
+import { SERVICES, readCatalogFile } from '../dist/catalog.js';
+import { AqsAuthError, AqsServerError } from '../dist/errors.js';
+import { Logger, setLogger } from '../dist/logger.js';
+import { catalogTools } from '../dist/tools/catalog.js';
+
+// Failed requests are logged as warnings; keep them out of the test output
+setLogger(new Logger({ level: 'error', write: () => {} }));
+
+const SERVICE = {
+  service: 'dailyData',
+  tool: 'aqs_daily_custom',
+  description: 'Daily data for {scope}; one row per day for {scope}.',
+  geographies: ['state'],
+  properties: {
+    duration: { type: 'string', description: 'Sample duration code' },
+  },
+  required: ['duration'],
+};
+
+let directory;
+
+before(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'aqs-catalog-'));
+});
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+async function catalogFile(service) {
+  const path = join(directory, `${Math.random().toString(36).slice(2)}.json`);
+  await writeFile(path, JSON.stringify({ services: [service] }));
+  return path;
+}
+
+test('a valid catalog file generates its tools', async () => {
+  const services = readCatalogFile(await catalogFile(SERVICE));
+  const [tool] = catalogTools(services);
+
+  assert.equal(tool.name, 'aqs_daily_custom_by_state');
+  assert.equal(
+    tool.description,
+    'Daily data for all monitoring sites in a state; one row per day for all monitoring sites in a state.'
+  );
+  assert.ok(tool.inputSchema.required.includes('duration'));
+});
+
+test('a missing catalog file adds no services', () => {
+  assert.deepEqual(readCatalogFile(join(directory, 'missing.json')), []);
+});
+
+for (const [field, value, message] of [
+  ['required', 'duration', /required must be a list of argument names/],
+  ['required', [1], /required must be a list of argument names/],
+  ['required', ['site'], /required names "site", which is not in services\[0\]\.properties/],
+  ['changeDates', 'yes', /changeDates must be true or false/],
+  ['handler', 7, /handler must be the name of a handler/],
+  ['properties', [], /properties must be an object/],
+]) {
+  test(`a catalog file with ${field}: ${JSON.stringify(value)} is rejected`, async () => {
+    const path = await catalogFile({ ...SERVICE, [field]: value });
+    assert.throws(() => readCatalogFile(path), message);
+  });
+}
+
+for (const name of ['aqs_annual_summary_by_state', 'aqs_monitors_by_state', 'aqs_daily_summary_by_state']) {
+  test(`${name} throws failures for the server to report as errors`, async () => {
+    const tool = catalogTools(SERVICES).find(candidate => candidate.name === name);
+    const args = {
+      email: 'test@example.com',
+      key: 'testkey',
+      param: '44201',
+      bdate: '20230101',
+      edate: '20231231',
+      state: '06',
+    };
+
+    for (const [status, type] of [[401, AqsAuthError], [503, AqsServerError]]) {
+      const client = new AqsClient({
+        fetch: async () => new Response('failed', { status }),
+        rateLimitMs: 0,
+        maxRetries: 0,
+      });
+      await assert.rejects(tool.handler(args, client), type);
+    }
+  });
+}
@@ -0,0 +1,419 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { AqsClient, summarizeChanges, validateChangeDates } from '../dist/client.js';
+import {
+  AqsAuthError,
+  AqsCancelledError,
+  AqsNetworkError,
+  AqsNoDataError,
+  AqsServerError,
+  AqsValidationError,
+} from '../dist/errors.js';
+import { Logger, setLogger } from '../dist/logger.js';
+
+// Failed attempts are logged as warnings; keep them out of the test output
+setLogger(new Logger({ level: 'error', write: () => {} }));
+
+const CREDENTIALS = { email: 'test@example.com', key: 'testkey' };
+
+function responseOf(data) {
+  return new Response(JSON.stringify({ Header: [{ status: 'Success' }], Data: data }));
+}
+
+function failedResponse(error) {
+  return new Response(JSON.stringify({ Header: [{ status: 'Failed', error: [error] }], Data: [] }));
+}
+
+function testClient(fetch, options = {}) {
+  return new AqsClient({ fetch, rateLimitMs: 0, maxRetries: 0, timeoutMs: 0, ...options });
+}
+
+/**
+ * Fake fetch that answers only when released, recording each request
+ *
+ * Like fetch, it rejects when its signal aborts.
+ */
+function heldFetch() {
+  const held = { requests: [] };
+  let release;
+  const released = new Promise(resolve => {
+    release = resolve;
+  });
+  let notify;
+  held.started = new Promise(resolve => {
+    notify = resolve;
+  });
+  held.release = () => release();
+  held.fetch = async (url, init) => {
+    held.requests.push({ url: new URL(url), signal: init.signal });
+    notify();
+    await new Promise((resolve, reject) => {
+      released.then(resolve);
+      init.signal.addEventListener('abort', () => reject(init.signal.reason), { once: true });
+    });
+    return responseOf([{ code: '06' }]);
+  };
+  return held;
+}
+
+/**
+ * Fake fetch answering each attempt with the next of `responses`, recording
+ * when each attempt was made
+ *
+ * A response that is a function is called instead, so it may throw.
+ */
+function scriptedFetch(responses) {
+  const scripted = { attempts: [] };
+  scripted.fetch = async () => {
+    const next = responses[scripted.attempts.length];
+    scripted.attempts.push(Date.now());
+    return typeof next === 'function' ? next() : next;
+  };
+  return scripted;
+}
+
+test('integer settings must be whole numbers', () => {
+  const env = { AQS_CACHE_DISABLED: '1' };
+  assert.doesNotThrow(() => AqsClient.fromEnv({ ...env, AQS_TIMEOUT_MS: '5000' }));
+
+  for (const value of ['5abc', '-1', '1.5', '1e3', ' 5']) {
+    assert.throws(
+      () => AqsClient.fromEnv({ ...env, AQS_TIMEOUT_MS: value }),
+      error => error.message === `AQS_TIMEOUT_MS must be a non-negative integer. Got: ${value}`
+    );
+  }
+});
+
+test('identical concurrent calls share one request', async () => {
+  const held = heldFetch();
+  const client = testClient(held.fetch);
+
+  const first = client.request('list/states', CREDENTIALS);
+  // Parameter order does not matter
+  const second = client.withContext({}).request('list/states', {
+    key: CREDENTIALS.key,
+    email: CREDENTIALS.email,
+  });
+  await held.started;
+  held.release();
+
+  assert.deepEqual(await first, await second);
+  assert.equal(held.requests.length, 1);
+});
+
+test('calls with different parameters do not share', async () => {
+  const held = heldFetch();
+  const client = testClient(held.fetch);
+  held.release();
+
+  await Promise.all([
+    client.request('list/counties', { ...CREDENTIALS, state: '06' }),
+    client.request('list/counties', { ...CREDENTIALS, state: '37' }),
+  ]);
+
+  assert.deepEqual(held.requests.map(request => request.url.searchParams.get('state')), ['06', '37']);
+});
+
+test('a finished request is not shared with later calls', async () => {
+  const held = heldFetch();
+  const client = testClient(held.fetch);
+  held.release();
+
+  await client.request('list/states', CREDENTIALS);
+  await client.request('list/states', CREDENTIALS);
+
+  assert.equal(held.requests.length, 2);
+});
+
+test('cancelling one caller leaves the shared request to the others', async () => {
+  const held = heldFetch();
+  const client = testClient(held.fetch);
+  const cancelled = new AbortController();
+
+  const first = client.withContext({ signal: cancelled.signal }).request('list/states', CREDENTIALS);
+  const second = client
+    .withContext({ signal: new AbortController().signal })
+    .request('list/states', CREDENTIALS);
+  await held.started;
+  cancelled.abort();
+
+  await assert.rejects(first, AqsCancelledError);
+  assert.equal(held.requests[0].signal.aborted, false);
+  held.release();
+  assert.deepEqual((await second).Data, [{ code: '06' }]);
+  assert.equal(held.requests.length, 1);
+});
+
+test('cancelling every caller aborts the shared request', async () => {
+  const held = heldFetch();
+  const client = testClient(held.fetch);
+  const controllers = [new AbortController(), new AbortController()];
+
+  const calls = controllers.map(controller =>
+    client.withContext({ signal: controller.signal }).request('list/states', CREDENTIALS)
+  );
+  await held.started;
+  for (const controller of controllers) {
+    controller.abort();
+  }
+
+  for (const call of calls) {
+    await assert.rejects(call, AqsCancelledError);
+  }
+  assert.equal(held.requests[0].signal.aborted, true);
+
+  // A later identical call starts a new request
+  held.release();
+  await client.request('list/states', CREDENTIALS);
+  assert.equal(held.requests.length, 2);
+});
+
+test('a call cancelled while queued gives up its slot', async () => {
+  const held = heldFetch();
+  held.release();
+  const client = testClient(held.fetch, { rateLimitMs: 100 });
+  const cancelled = new AbortController();
+
+  await client.request('list/states', CREDENTIALS);
+  const begin = Date.now();
+  const queued = client
+    .withContext({ signal: cancelled.signal })
+    .request('list/counties', { ...CREDENTIALS, state: '06' });
+  const next = client.request('list/counties', { ...CREDENTIALS, state: '37' });
+  cancelled.abort();
+
+  await assert.rejects(queued, AqsCancelledError);
+  await next;
+  // The next call starts at the first free slot, not the one after it
+  assert.ok(Date.now() - begin < 180, `waited ${Date.now() - begin}ms`);
+  assert.deepEqual(held.requests.map(request => request.url.searchParams.get('state')), [null, '37']);
+});
+
+test('each attempt has its own timeout', async () => {
+  let attempts = 0;
+  const client = testClient(
+    async (url, init) => {
+      attempts++;
+      if (attempts === 1) {
+        await new Promise((resolve, reject) => {
+          init.signal.addEventListener('abort', () => reject(init.signal.reason), { once: true });
+        });
+      }
+      // The retry takes longer than the timeout in all, but not per attempt
+      await new Promise(resolve => setTimeout(resolve, 30));
+      return responseOf([{ code: '06' }]);
+    },
+    { timeoutMs: 50, maxRetries: 1, retryBaseMs: 1 }
+  );
+
+  assert.deepEqual((await client.request('list/states', CREDENTIALS)).Data, [{ code: '06' }]);
+  assert.equal(attempts, 2);
+});
+
+test('a request that keeps timing out fails with a network error', async () => {
+  const held = heldFetch();
+  const client = testClient(held.fetch, { timeoutMs: 50, maxRetries: 1, retryBaseMs: 1 });
+
+  await assert.rejects(
+    client.request('list/states', CREDENTIALS),
+    error => error instanceof AqsNetworkError && /timed out after 50ms/.test(error.message)
+  );
+  assert.equal(held.requests.length, 2);
+});
+
+test('rate-limit, server, and network failures are retried with growing backoff', async () => {
+  const scripted = scriptedFetch([
+    new Response('busy', { status: 429 }),
+    new Response('down', { status: 503 }),
+    () => {
+      throw new TypeError('fetch failed');
+    },
+    responseOf([{ code: '06' }]),
+  ]);
+  const lines = [];
+  const client = testClient(scripted.fetch, { maxRetries: 3, retryBaseMs: 20 }).withContext({
+    logger: new Logger({ level: 'warn', write: line => lines.push(line) }),
+  });
+
+  assert.deepEqual((await client.request('list/states', CREDENTIALS)).Data, [{ code: '06' }]);
+  assert.equal(scripted.attempts.length, 4);
+
+  // Retry n waits between half and all of retryBaseMs * 2^n
+  const gaps = scripted.attempts.slice(1).map((at, i) => at - scripted.attempts[i]);
+  gaps.forEach((gap, retry) => {
+    assert.ok(gap >= 10 * 2 ** retry - 2, `retry ${retry} after ${gap}ms`);
+  });
+  assert.equal(lines.filter(line => line.includes('Retrying after transient failure')).length, 3);
+});
+
+for (const [name, response, type] of [
+  ['HTTP 400', () => new Response('bad', { status: 400 }), AqsValidationError],
+  ['HTTP 401', () => new Response('who', { status: 401 }), AqsAuthError],
+  ['a rejected key', () => failedResponse('Invalid key for this email'), AqsAuthError],
+  ['a rejected parameter', () => failedResponse('Invalid parameter code'), AqsValidationError],
+]) {
+  test(`${name} fails at once without a retry`, async () => {
+    const scripted = scriptedFetch([response(), responseOf([])]);
+    const client = testClient(scripted.fetch, { maxRetries: 3, retryBaseMs: 1 });
+
+    await assert.rejects(client.request('list/states', CREDENTIALS), type);
+    assert.equal(scripted.attempts.length, 1);
+  });
+}
+
+test('the last failure is thrown once the retries run out', async () => {
+  const scripted = scriptedFetch([
+    new Response('busy', { status: 429 }),
+    new Response('down', { status: 500 }),
+    new Response('down', { status: 502 }),
+  ]);
+  const client = testClient(scripted.fetch, { maxRetries: 2, retryBaseMs: 1 });
+
+  await assert.rejects(
+    client.request('list/states', CREDENTIALS),
+    error => error instanceof AqsServerError && error.status === 502
+  );
+  assert.equal(scripted.attempts.length, 3);
+});
+
+test('a cancelled call stops waiting for its retry', async () => {
+  const scripted = scriptedFetch([new Response('busy', { status: 429 }), responseOf([])]);
+  const controller = new AbortController();
+  const client = testClient(scripted.fetch, { maxRetries: 1, retryBaseMs: 10_000 });
+
+  const call = client.withContext({ signal: controller.signal }).request('list/states', CREDENTIALS);
+  setTimeout(() => controller.abort(), 20);
+
+  await assert.rejects(call, AqsCancelledError);
+  assert.equal(scripted.attempts.length, 1);
+});
+
+/**
+ * Fake fetch answering by the year of the requested bdate, recording the
+ * requested date ranges
+ *
+ * Years missing from `byYear` have one row.
+ */
+function yearlyFetch(byYear = {}) {
+  const yearly = { ranges: [] };
+  yearly.fetch = async url => {
+    const params = new URL(url).searchParams;
+    const year = params.get('bdate').slice(0, 4);
+    yearly.ranges.push([params.get('bdate'), params.get('edate')]);
+    return byYear[year]?.() ?? responseOf([{ year }]);
+  };
+  return yearly;
+}
+
+const NO_DATA = () =>
+  new Response(JSON.stringify({ Header: [{ status: 'No data matched your selection' }], Data: [] }));
+
+test('a multi-year range is requested one year at a time and merged', async () => {
+  const yearly = yearlyFetch();
+  const client = testClient(yearly.fetch);
+
+  const response = await client.requestByYear('sampleData/byState', {
+    ...CREDENTIALS,
+    bdate: '20190615',
+    edate: '20210310',
+  });
+
+  assert.deepEqual(yearly.ranges, [
+    ['20190615', '20191231'],
+    ['20200101', '20201231'],
+    ['20210101', '20210310'],
+  ]);
+  assert.deepEqual(response.Data, [{ year: '2019' }, { year: '2020' }, { year: '2021' }]);
+  assert.deepEqual(response.years.map(year => [year.year, year.rows]), [[2019, 1], [2020, 1], [2021, 1]]);
+  assert.equal(response.Header[0].rows, 3);
+});
+
+test('years without data or with a server failure do not fail the range', async () => {
+  const yearly = yearlyFetch({
+    2019: NO_DATA,
+    2020: () => new Response('down', { status: 500 }),
+  });
+  const client = testClient(yearly.fetch);
+
+  const response = await client.requestByYear('sampleData/byState', {
+    ...CREDENTIALS,
+    bdate: '20190101',
+    edate: '20211231',
+  });
+
+  assert.deepEqual(response.Data, [{ year: '2021' }]);
+  assert.deepEqual(response.years.map(year => [year.year, year.rows]), [[2019, 0], [2020, 0], [2021, 1]]);
+  assert.equal(response.years[0].error, undefined);
+  assert.match(response.years[1].error, /HTTP 500/);
+});
+
+for (const [name, failure, type] of [
+  ['rejected credentials', () => failedResponse('Invalid key for this email'), AqsAuthError],
+  ['rejected parameters', () => failedResponse('Invalid parameter code'), AqsValidationError],
+]) {
+  test(`${name} stop a multi-year range at once`, async () => {
+    const yearly = yearlyFetch({ 2020: failure });
+    const client = testClient(yearly.fetch);
+
+    await assert.rejects(
+      client.requestByYear('sampleData/byState', { ...CREDENTIALS, bdate: '20190101', edate: '20221231' }),
+      type
+    );
+    assert.deepEqual(yearly.ranges.map(([bdate]) => bdate), ['20190101', '20200101']);
+  });
+}
+
+test('a range fails when every year fails or none has data', async () => {
+  const down = () => new Response('down', { status: 503 });
+  const failing = testClient(yearlyFetch({ 2019: down, 2020: down }).fetch);
+  await assert.rejects(
+    failing.requestByYear('sampleData/byState', { ...CREDENTIALS, bdate: '20190101', edate: '20201231' }),
+    AqsServerError
+  );
+
+  const empty = testClient(yearlyFetch({ 2019: NO_DATA, 2020: NO_DATA }).fetch);
+  await assert.rejects(
+    empty.requestByYear('sampleData/byState', { ...CREDENTIALS, bdate: '20190101', edate: '20201231' }),
+    AqsNoDataError
+  );
+});
+
+test('a change window is passed on only when complete and in order', () => {
+  assert.deepEqual(validateChangeDates(), {});
+  assert.deepEqual(validateChangeDates('20230101', '20230101'), { cbdate: '20230101', cedate: '20230101' });
+
+  for (const [cbdate, cedate, message] of [
+    ['20230101', undefined, /must be provided together/],
+    [undefined, '20230131', /must be provided together/],
+    ['20230201', '20230131', /cbdate \(20230201\) must not be after cedate \(20230131\)/],
+    ['2023-01-01', '20230131', /cbdate must be in YYYYMMDD format/],
+    ['20230101', '20231301', /cedate has invalid month: 13/],
+  ]) {
+    assert.throws(
+      () => validateChangeDates(cbdate, cedate),
+      error => error instanceof AqsValidationError && message.test(error.message)
+    );
+  }
+});
+
+test('the change summary reports the window and the latest change', () => {
+  const rows = [
+    { date_of_last_change: '2023-02-01' },
+    {},
+    { date_of_last_change: '2023-03-15' },
+    { date_of_last_change: '2023-01-20' },
+  ];
+
+  assert.equal(summarizeChanges(rows, {}), undefined);
+  assert.deepEqual(summarizeChanges(rows, { cbdate: '20230101', cedate: '20230331' }), {
+    cbdate: '20230101',
+    cedate: '20230331',
+    latest_date_of_last_change: '2023-03-15',
+  });
+  assert.deepEqual(summarizeChanges([], { cbdate: '20230101', cedate: '20230331' }), {
+    cbdate: '20230101',
+    cedate: '20230331',
+    latest_date_of_last_change: undefined,
+  });
+});
@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import { chmod, chown, mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, afterEach, before, test } from 'node:test';
+
+import { resolveCredentials } from '../dist/client.js';
+import {
+  applyProfile,
+  clearSessionCredentials,
+  credentialsFilePath,
+  profileCredentials,
+  setSessionCredentials,
+} from '../dist/credentials.js';
+import { AqsAuthError } from '../dist/errors.js';
+
+const TEAM = { email: 'team@example.org', key: 'teamkey' };
+const ALICE = { email: 'alice@example.org', key: 'alicekey' };
+const SESSION = { email: 'session@example.org', key: 'sessionkey' };
+const ENVIRONMENT = { email: 'env@example.org', key: 'envkey' };
+
+const saved = {};
+let directory;
+
+/**
+ * Write the credentials file with the given mode
+ */
+async function writeCredentials(mode = 0o600) {
+  const path = credentialsFilePath();
+  await mkdir(join(directory, 'aqs-mcp'), { recursive: true });
+  await writeFile(path, JSON.stringify({ default: 'team', profiles: { team: TEAM, alice: ALICE } }));
+  await chmod(path, mode);
+  return path;
+}
+
+before(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'aqs-credentials-'));
+  for (const name of ['XDG_CONFIG_HOME', 'AQS_CREDENTIALS_FILE', 'AQS_EMAIL', 'AQS_API_KEY']) {
+    saved[name] = process.env[name];
+    delete process.env[name];
+  }
+  process.env.XDG_CONFIG_HOME = directory;
+});
+
+afterEach(async () => {
+  clearSessionCredentials();
+  clearSessionCredentials('team');
+  delete process.env.AQS_EMAIL;
+  delete process.env.AQS_API_KEY;
+  await rm(join(directory, 'aqs-mcp'), { recursive: true, force: true });
+});
+
+after(async () => {
+  for (const [name, value] of Object.entries(saved)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+  await rm(directory, { recursive: true, force: true });
+});
+
+test('the credentials file is read from the config directory', async () => {
+  const path = await writeCredentials();
+
+  assert.equal(path, join(directory, 'aqs-mcp', 'credentials.json'));
+  assert.deepEqual(profileCredentials('alice'), ALICE);
+});
+
+for (const mode of [0o640, 0o604, 0o644]) {
+  test(`a credentials file with mode ${mode.toString(8)} is refused`, async () => {
+    await writeCredentials(mode);
+
+    assert.throws(
+      () => profileCredentials('alice'),
+      error =>
+        error instanceof AqsAuthError &&
+        error.message.includes(`is accessible by other users (mode ${mode.toString(8)})`) &&
+        error.message.includes('chmod 600')
+    );
+  });
+}
+
+const NOT_ROOT = process.getuid?.() !== 0 && 'changing the owner needs root';
+
+test('a credentials file owned by another user is refused', { skip: NOT_ROOT }, async () => {
+  const path = await writeCredentials();
+  await chown(path, process.getuid() + 1000, process.getgid());
+
+  assert.throws(
+    () => profileCredentials('alice'),
+    error => error instanceof AqsAuthError && /is not owned by the current user/.test(error.message)
+  );
+});
+
+test('credentials resolve from arguments, then the session, then the environment, then the default profile', async () => {
+  await writeCredentials();
+  assert.deepEqual(resolveCredentials(), TEAM);
+
+  process.env.AQS_EMAIL = ENVIRONMENT.email;
+  process.env.AQS_API_KEY = ENVIRONMENT.key;
+  assert.deepEqual(resolveCredentials(), ENVIRONMENT);
+
+  setSessionCredentials(SESSION);
+  assert.deepEqual(resolveCredentials(), SESSION);
+
+  assert.deepEqual(resolveCredentials(ALICE.email, ALICE.key), ALICE);
+  // Each value falls back on its own
+  assert.deepEqual(resolveCredentials(ALICE.email), { email: ALICE.email, key: SESSION.key });
+});
+
+test('missing credentials are an auth error', () => {
+  assert.throws(
+    () => resolveCredentials(),
+    error => error instanceof AqsAuthError && /Email is required/.test(error.message)
+  );
+});
+
+test('a named profile fills in credentials the call did not give', async () => {
+  await writeCredentials();
+
+  assert.deepEqual(applyProfile({ profile: 'alice', state: '06' }), {
+    profile: 'alice',
+    state: '06',
+    ...ALICE,
+  });
+  assert.equal(applyProfile({ profile: 'alice', key: 'ownkey' }).key, 'ownkey');
+
+  // Session profiles shadow file profiles
+  setSessionCredentials(SESSION, 'team');
+  assert.deepEqual(profileCredentials('team'), SESSION);
+});
+
+test('an unknown profile is an auth error naming the known ones', async () => {
+  assert.throws(
+    () => profileCredentials('bob'),
+    error =>
+      error instanceof AqsAuthError &&
+      error.message.startsWith('Unknown credential profile "bob". No profiles are defined')
+  );
+
+  await writeCredentials();
+  setSessionCredentials(SESSION, 'carol');
+  assert.throws(
+    () => profileCredentials('bob'),
+    error => error instanceof AqsAuthError && error.message.endsWith('Known profiles: alice, carol, team.')
+  );
+  clearSessionCredentials('carol');
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { Logger } from '../dist/logger.js';
+import { registerSecret } from '../dist/redact.js';
+
+/**
+ * Logger writing to an array of lines
+ */
+function capturingLogger(options = {}) {
+  const lines = [];
+  const log = new Logger({ ...options, write: line => lines.push(line) });
+  return { log, lines };
+}
+
+function logEveryLevel(log) {
+  log.error('e');
+  log.warn('w');
+  log.info('i');
+  log.debug('d');
+}
+
+test('only lines at or above the level are written', () => {
+  for (const [level, written] of [
+    ['error', ['ERROR e']],
+    ['warn', ['ERROR e', 'WARN w']],
+    ['info', ['ERROR e', 'WARN w', 'INFO i']],
+    ['debug', ['ERROR e', 'WARN w', 'INFO i', 'DEBUG d']],
+  ]) {
+    const { log, lines } = capturingLogger({ level });
+    logEveryLevel(log);
+    assert.deepEqual(lines, written.map(line => `[AQS] ${line}\n`));
+  }
+
+  const { log, lines } = capturingLogger();
+  logEveryLevel(log);
+  assert.equal(lines.length, 3, 'info is the default level');
+});
+
+test('text lines quote field values that need it', () => {
+  const { log, lines } = capturingLogger();
+
+  log.warn('Retrying', {
+    endpoint: 'list/states',
+    reason: 'HTTP 503 Service Unavailable',
+    attempt: 2,
+    skipped: undefined,
+    error: new Error('fetch failed'),
+  });
+
+  assert.deepEqual(lines, [
+    '[AQS] WARN Retrying endpoint=list/states reason="HTTP 503 Service Unavailable" attempt=2 error="fetch failed"\n',
+  ]);
+});
+
+test('JSON lines are one object per line', () => {
+  const { log, lines } = capturingLogger({ json: true });
+
+  log.info('Tool call finished', { durationMs: 12, error: new Error('boom') });
+
+  assert.equal(lines.length, 1);
+  assert.ok(lines[0].endsWith('}\n'));
+  const { time, ...rest } = JSON.parse(lines[0]);
+  assert.ok(!Number.isNaN(Date.parse(time)));
+  assert.deepEqual(rest, { level: 'info', message: 'Tool call finished', durationMs: 12, error: 'boom' });
+});
+
+test('child loggers carry the request ID on every line', () => {
+  for (const json of [false, true]) {
+    const { log, lines } = capturingLogger({ level: 'debug', json });
+    const child = log.child({ requestId: 'a1b2c3d4', tool: 'aqs_list_states' });
+
+    child.info('Tool call started');
+    child.child({ endpoint: 'list/states' }).debug('Request sent');
+    log.info('Server started');
+
+    if (json) {
+      const [started, sent, server] = lines.map(line => JSON.parse(line));
+      assert.equal(started.requestId, 'a1b2c3d4');
+      assert.equal(sent.requestId, 'a1b2c3d4');
+      assert.equal(sent.endpoint, 'list/states');
+      assert.equal(server.requestId, undefined);
+    } else {
+      assert.deepEqual(lines, [
+        '[AQS] INFO Tool call started requestId=a1b2c3d4 tool=aqs_list_states\n',
+        '[AQS] DEBUG Request sent requestId=a1b2c3d4 tool=aqs_list_states endpoint=list/states\n',
+        '[AQS] INFO Server started\n',
+      ]);
+    }
+  }
+});
+
+test('the level is read from the environment', () => {
+  assert.equal(Logger.fromEnv({}).level, 'info');
+  assert.equal(Logger.fromEnv({ AQS_LOG_LEVEL: 'DEBUG' }).level, 'debug');
+  assert.throws(
+    () => Logger.fromEnv({ AQS_LOG_LEVEL: 'verbose' }),
+    /AQS_LOG_LEVEL must be one of error, warn, info, debug/
+  );
+});
+
+test('credentials are redacted from log lines', () => {
+  registerSecret('loggersecret');
+  const { log, lines } = capturingLogger();
+
+  log.info('Request sent', { url: 'https://aqs.epa.gov/data/api/list/states?email=a@b.org&key=loggersecret' });
+
+  assert.ok(!lines[0].includes('loggersecret'));
+  assert.ok(lines[0].includes('key=[REDACTED]'));
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { ProgressReporter } from '../dist/progress.js';
+
+/**
+ * Progress reporter recording every notification it sends
+ */
+function recordingReporter() {
+  const sent = [];
+  const reporter = new ProgressReporter(async notification => {
+    sent.push(notification);
+  });
+  return { reporter, sent };
+}
+
+function assertIncreasing(sent) {
+  sent.slice(1).forEach((notification, i) => {
+    assert.ok(
+      notification.progress > sent[i].progress,
+      `progress went from ${sent[i].progress} to ${notification.progress}`
+    );
+  });
+}
+
+test('each step reports its queue wait, request, download, and completion', () => {
+  const { reporter, sent } = recordingReporter();
+
+  reporter.expect(2);
+  reporter.queued('sampleData/byState', 2, 4500);
+  reporter.started('sampleData/byState', 4800);
+  reporter.received('sampleData/byState', 512 * 1024, 2 * 1024 * 1024);
+  reporter.completed('sampleData/byState');
+  reporter.retrying('sampleData/byState', 2000, 'HTTP 503');
+  reporter.started('sampleData/byState', 0);
+  reporter.completed('sampleData/byState');
+
+  assert.deepEqual(sent.map(notification => notification.message), [
+    'Step 1 of 2: sampleData/byState waiting in the request queue behind 2 request(s), next slot in 5s',
+    'Step 1 of 2: requesting sampleData/byState after 5s in the queue',
+    'Step 1 of 2: received 512.0 KB of 2.0 MB from sampleData/byState',
+    'Finished step 1 of 2: sampleData/byState',
+    'Step 2 of 2: retrying sampleData/byState in 2s (HTTP 503)',
+    'Step 2 of 2: requesting sampleData/byState',
+    'Finished step 2 of 2: sampleData/byState',
+  ]);
+  assertIncreasing(sent);
+  assert.deepEqual(sent.map(notification => notification.total), Array(7).fill(2));
+  // A quarter of the download is a quarter of the step's download share
+  assert.ok(Math.abs(sent[2].progress - 0.3) < 1e-9);
+  assert.equal(sent.at(-1).progress, 2);
+});
+
+test('progress keeps increasing when steps are added after others finished', () => {
+  const { reporter, sent } = recordingReporter();
+
+  reporter.started('list/states', 0);
+  reporter.completed('list/states');
+  reporter.expect(1);
+  reporter.queued('list/counties', 0, 0);
+  reporter.started('list/counties', 0);
+  reporter.completed('list/counties');
+
+  assert.deepEqual(sent.map(notification => notification.message), [
+    'Step 1 of 1: requesting list/states',
+    'Finished step 1 of 1: list/states',
+    'Step 2 of 2: list/counties waiting in the request queue',
+    'Step 2 of 2: requesting list/counties',
+    'Finished step 2 of 2: list/counties',
+  ]);
+  assertIncreasing(sent);
+  // No total is known until a step is announced
+  assert.equal(sent[0].total, undefined);
+  for (const notification of sent.slice(2)) {
+    assert.ok(notification.total >= notification.progress);
+  }
+});
+
+test('byte counts are reported at most every half second', async () => {
+  const { reporter, sent } = recordingReporter();
+
+  reporter.received('sampleData/byState', 100);
+  reporter.received('sampleData/byState', 2048);
+  await new Promise(resolve => setTimeout(resolve, 520));
+  reporter.received('sampleData/byState', 3 * 1024 * 1024);
+
+  assert.deepEqual(sent.map(notification => notification.message), [
+    'Step 1 of 1: received 100 B from sampleData/byState',
+    'Step 1 of 1: received 3.0 MB from sampleData/byState',
+  ]);
+  assertIncreasing(sent);
+  // Without a Content-Length the step is never reported as finished
+  assert.ok(sent[1].progress < 0.9);
+});
+
+test('a failure to notify does not fail the call', async () => {
+  const reporter = new ProgressReporter(async () => {
+    throw new Error('client went away');
+  });
+
+  reporter.started('list/states', 0);
+  reporter.completed('list/states');
+  await new Promise(resolve => setImmediate(resolve));
+});
@@ -0,0 +1,213 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { AqsClient } from '../dist/client.js';
+import { SERVICES } from '../dist/catalog.js';
+import { catalogTools } from '../dist/tools/catalog.js';
+
+const SITE = { state_code: '06', county_code: '037', site_number: '1103' };
+
+/**
+ * Parsed output of a by-site QA tool for AQS rows
+ */
+async function callWith(tool, rows) {
+  const client = new AqsClient({
+    rateLimitMs: 0,
+    fetch: async () => new Response(JSON.stringify({ Header: [{ status: 'Success' }], Data: rows })),
+  });
+  const handler = catalogTools(SERVICES).find(candidate => candidate.name === `${tool}_by_site`).handler;
+
+  const result = await handler(
+    {
+      email: 'test@example.com',
+      key: 'testkey',
+      param: '44201',
+      bdate: '20230101',
+      edate: '20231231',
+      state: '06',
+      county: '037',
+      site: '1103',
+    },
+    client
+  );
+  return JSON.parse(result.content[0].text);
+}
+
+function check(monitor, assessment) {
+  return {
+    ...SITE,
+    parameter_code: '44201',
+    poc: 1,
+    assessment_date: '2023-03-01',
+    monitor_concentration: monitor,
+    assessment_concentration: assessment,
+    units_of_measure: 'Parts per million',
+  };
+}
+
+test('one-point QC bias is computed before rounding', async () => {
+  // Percent differences of 0.004 and 0.006, shown as 0 and 0.01
+  const { data, summary } = await callWith('aqs_qa_one_point_qc', [
+    check(100.004, 100),
+    check(100.006, 100),
+  ]);
+
+  assert.deepEqual(data.map(row => row.percent_difference), [0, 0.01]);
+  assert.equal(summary[0].check_count, 2);
+  assert.equal(summary[0].mean_absolute_percent_difference, 0.01);
+  // From the rounded values the bound would be 0.04
+  assert.equal(summary[0].bias_upper_bound, 0.01);
+});
+
+function pair(primary, collocated, collocatedPoc = 2, parameter = '88101') {
+  return {
+    ...SITE,
+    parameter_code: parameter,
+    primary_poc: 1,
+    collocated_poc: collocatedPoc,
+    assessment_date: '2023-03-01',
+    primary_sample_value: primary,
+    collocated_sample_value: collocated,
+    units_of_measure: 'Micrograms/cubic meter (LC)',
+  };
+}
+
+test('collocated precision is the CFR coefficient of variation per sampler pair', async () => {
+  const { summary } = await callWith('aqs_qa_collocated_assessments', [
+    // Relative percent differences of 20, -20, and 0
+    pair(11, 9),
+    pair(9, 11),
+    pair(10, 10),
+    // Skipped: a missing value and a zero mean
+    pair(null, 10),
+    pair(0, 0),
+    // A second pair with a single usable sample
+    pair(12, 8, 3),
+  ]);
+
+  assert.deepEqual(
+    summary.map(group => [group.collocated_poc, group.pair_count, group.coefficient_of_variation]),
+    [
+      // sqrt((3 * 800 - 0) / (2 * 3 * 2))
+      [2, 3, 14.14],
+      [3, 1, null],
+    ]
+  );
+});
+
+test('collocated pairs below the CFR concentration cutoff do not count', async () => {
+  const { summary } = await callWith('aqs_qa_collocated_assessments', [
+    pair(11, 9),
+    pair(9, 11),
+    // Exactly at the PM2.5 cutoff of 3 µg/m³: d = 0
+    pair(3, 3),
+    // Below it: d would be -66.7 and 3.4
+    pair(0.5, 1),
+    pair(3, 2.9),
+    // Lead counts down to 0.002 µg/m³
+    pair(0.0033, 0.0027, 2, '14129'),
+    pair(0.0027, 0.0033, 2, '14129'),
+    pair(0.001, 0.003, 2, '14129'),
+    // Parameters without a cutoff use every pair with a positive mean
+    pair(0.55, 0.45, 2, '88502'),
+    pair(0.45, 0.55, 2, '88502'),
+  ]);
+
+  assert.deepEqual(
+    summary.map(group => [
+      group.parameter_code,
+      group.minimum_concentration,
+      group.pair_count,
+      group.coefficient_of_variation,
+    ]),
+    [
+      // sqrt((3 * 800 - 0) / (2 * 3 * 2))
+      ['88101', 3, 3, 14.14],
+      // sqrt((2 * 800 - 0) / (2 * 2 * 1))
+      ['14129', 0.002, 2, 20],
+      ['88502', null, 2, 20],
+    ]
+  );
+});
+
+function flowCheck(monitor, audit, design = 16.7) {
+  return {
+    ...SITE,
+    parameter_code: '88101',
+    poc: 1,
+    assessment_date: '2023-03-01',
+    monitor_flow_rate: monitor,
+    audit_flow_rate: audit,
+    design_flow_rate: design,
+    units_of_measure: 'Liters/minute',
+  };
+}
+
+for (const tool of ['aqs_qa_flow_rate_verifications', 'aqs_qa_flow_rate_audits']) {
+  test(`${tool} flag checks outside ±4% of the standard or ±5% of the design flow`, async () => {
+    const { data, summary } = await callWith(tool, [
+      // Exactly at the limits
+      flowCheck(17.368, 16.7, 17.368),
+      flowCheck(16.032, 16.7, 16.032),
+      flowCheck(17.535, 17.535, 16.7),
+      flowCheck(15.865, 15.865, 16.7),
+      // Just outside them
+      flowCheck(17.37, 16.7, 17.37),
+      flowCheck(17.54, 17.54, 16.7),
+      // No audit flow to compare with
+      flowCheck(16.7, null),
+    ]);
+
+    assert.deepEqual(
+      data.map(row => [row.percent_difference, row.design_percent_difference, row.exceeds_acceptance_criteria]),
+      [
+        [4, 0, false],
+        [-4, 0, false],
+        [0, 5, false],
+        [0, -5, false],
+        [4.01, 0, true],
+        [0, 5.03, true],
+        [null, 0, false],
+      ]
+    );
+    assert.equal(summary.check_count, 7);
+    assert.equal(summary.failure_count, 2);
+    assert.deepEqual(summary.failures.map(row => row.percent_difference), [4.01, 0]);
+  });
+}
+
+function audit(date, sampler, pep) {
+  return {
+    ...SITE,
+    parameter_code: '88101',
+    poc: 1,
+    assessment_date: date,
+    sampler_concentration: sampler,
+    pep_concentration: pep,
+    units_of_measure: 'Micrograms/cubic meter (LC)',
+  };
+}
+
+test('PEP bias is averaged per site and year', async () => {
+  const { data, summary } = await callWith('aqs_qa_pep_audits', [
+    audit('2022-04-01', 11, 10),
+    audit('2022-10-01', 9, 10),
+    audit('2023-04-01', 10.5, 10),
+    // Skipped: no PEP value
+    audit('2023-10-01', 10, null),
+  ]);
+
+  assert.deepEqual(data.map(row => row.percent_difference), [10, -10, 5, null]);
+  assert.deepEqual(
+    summary.map(group => [
+      group.year,
+      group.audit_count,
+      group.mean_percent_difference,
+      group.mean_absolute_percent_difference,
+    ]),
+    [
+      ['2022', 2, 0, 10],
+      ['2023', 1, 5, 5],
+    ]
+  );
+});
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { AqsCancelledError } from '../dist/errors.js';
+import { RequestQueue } from '../dist/queue.js';
+
+// Timers may fire a millisecond early by Date.now()
+const SLACK_MS = 2;
+
+test('waiting reference lookups start before bulk data, each after the spacing', async () => {
+  const queue = new RequestQueue({ intervalMs: 50 });
+  await queue.acquire('data');
+
+  const started = [];
+  const waiters = [
+    ['data 1', 'data'],
+    ['data 2', 'data'],
+    ['reference', 'reference'],
+  ].map(([name, priority]) =>
+    queue.acquire(priority).then(() => started.push({ name, at: Date.now() }))
+  );
+  assert.deepEqual(queue.depth(), { waiting: 3, byPriority: { reference: 1, data: 2 } });
+
+  await Promise.all(waiters);
+
+  assert.deepEqual(started.map(start => start.name), ['reference', 'data 1', 'data 2']);
+  for (let i = 1; i < started.length; i++) {
+    assert.ok(started[i].at - started[i - 1].at >= 50 - SLACK_MS, `start ${i} too soon`);
+  }
+  assert.equal(queue.depth().waiting, 0);
+});
+
+test('per-key spacing lets other keys start at once', async () => {
+  const queue = new RequestQueue({ intervalMs: 200, perKey: true });
+  const begin = Date.now();
+
+  await queue.acquire('data', 'key-a');
+  await queue.acquire('data', 'key-b');
+
+  assert.ok(Date.now() - begin < 100);
+  assert.ok(queue.nextSlotIn('key-a') > 100);
+  assert.ok(queue.nextSlotIn('key-b') > 100);
+  assert.equal(queue.nextSlotIn('key-c'), 0);
+});
+
+test('shared spacing delays every key', async () => {
+  const queue = new RequestQueue({ intervalMs: 50 });
+  await queue.acquire('data', 'key-a');
+
+  const begin = Date.now();
+  await queue.acquire('data', 'key-b');
+
+  assert.ok(Date.now() - begin >= 50 - SLACK_MS);
+});
+
+test('a waiter whose signal aborts leaves the queue', async () => {
+  const queue = new RequestQueue({ intervalMs: 50 });
+  await queue.acquire('data');
+  const begin = Date.now();
+
+  const cancelled = new AbortController();
+  const leaving = queue.acquire('reference', undefined, cancelled.signal);
+  const staying = queue.acquire('data');
+  cancelled.abort();
+
+  await assert.rejects(leaving, AqsCancelledError);
+  assert.deepEqual(queue.depth(), { waiting: 1, byPriority: { reference: 0, data: 1 } });
+  await staying;
+  // The remaining waiter takes the slot the cancelled one would have used
+  assert.ok(Date.now() - begin < 90, `waited ${Date.now() - begin}ms`);
+  await assert.rejects(queue.acquire('data', undefined, cancelled.signal), AqsCancelledError);
+});
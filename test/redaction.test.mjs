@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { AqsClient } from '../dist/client.js';
+import { SERVICES } from '../dist/catalog.js';
+import { describeError } from '../dist/errors.js';
+import { Logger, setLogger } from '../dist/logger.js';
+import { redact, redactResult, registerSecret } from '../dist/redact.js';
+import { catalogTools } from '../dist/tools/catalog.js';
+import { listTools } from '../dist/tools/lists.js';
+import { signupTools } from '../dist/tools/signup.js';
+import { validateArguments } from '../dist/validation.js';
+
+const EMAIL = 'analyst@example.com';
+const KEY = 'secretkey4321';
+const SECRETS = [KEY, EMAIL, encodeURIComponent(EMAIL)];
+
+/**
+ * A valid value for every argument the tools require
+ */
+const ARGUMENTS = {
+  email: EMAIL,
+  key: KEY,
+  param: '44201',
+  bdate: '20230101',
+  edate: '20230131',
+  state: '06',
+  county: '037',
+  site: '0002',
+  minlat: '33',
+  maxlat: '35',
+  minlon: '-119',
+  maxlon: '-117',
+  cbsa: '31080',
+  pqao: '0013',
+  agency: '0013',
+  pc: 'CRITERIA',
+  service: 'sampleData',
+};
+
+const ROW = {
+  code: '06',
+  value_represented: 'California',
+  state_code: '06',
+  county_code: '037',
+  site_number: '0002',
+  parameter_code: '44201',
+  poc: 1,
+  sample_measurement: 0.04,
+  date_local: '2023-01-01',
+  date_of_last_change: '2023-06-01',
+};
+
+/**
+ * Fake AQS responses that echo the credentials back, as AQS does
+ */
+const RESPONSES = {
+  success: url => new Response(JSON.stringify({ Header: [{ status: 'Success', url }], Data: [ROW] })),
+  failure: url =>
+    new Response(JSON.stringify({
+      Header: [{ status: 'Failed', url, error: [`Invalid key ${KEY} for ${EMAIL}`] }],
+      Data: [],
+    })),
+  http: url => new Response(`Bad request: ${url}`, { status: 400, statusText: `Bad key ${KEY}` }),
+  network: url => {
+    throw new TypeError(`fetch failed: ${url}`);
+  },
+};
+
+const tools = [...catalogTools(SERVICES), ...listTools, ...signupTools];
+
+for (const [mode, respond] of Object.entries(RESPONSES)) {
+  test(`credentials never leave the server (${mode} responses)`, async () => {
+    registerSecret(KEY);
+    const lines = [];
+    setLogger(new Logger({ level: 'debug', write: line => lines.push(line) }));
+    const client = new AqsClient({
+      fetch: async url => respond(String(url)),
+      rateLimitMs: 0,
+      maxRetries: 0,
+    });
+
+    for (const tool of tools) {
+      const args = {};
+      for (const name of [...(tool.inputSchema.required ?? []), 'email', 'key']) {
+        if (name in tool.inputSchema.properties) {
+          args[name] = ARGUMENTS[name];
+        }
+      }
+
+      // Results and errors are redacted the way the server sends them
+      let text;
+      try {
+        const params = validateArguments(tool.name, tool.inputSchema, args);
+        const result = redactResult(await tool.handler(params, client));
+        text = result.content.map(item => item.text).join('\n');
+      } catch (error) {
+        text = redact(describeError(error));
+      }
+
+      for (const secret of SECRETS) {
+        assert.ok(!text.includes(secret), `${tool.name} returned ${secret}: ${text}`);
+      }
+    }
+
+    for (const line of lines) {
+      for (const secret of SECRETS) {
+        assert.ok(!line.includes(secret), `logged ${secret}: ${line}`);
+      }
+    }
+    assert.ok(lines.length > 0);
+  });
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { AqsClient } from '../dist/client.js';
+import { errorCategory } from '../dist/errors.js';
+import { Logger, setLogger } from '../dist/logger.js';
+import { signupTools } from '../dist/tools/signup.js';
+import { errorResult } from '../dist/tools/tool.js';
+
+setLogger(new Logger({ level: 'error', write: () => {} }));
+
+const ARGUMENTS = { email: 'test@example.com', key: 'testkey', service: 'sampleData' };
+
+/**
+ * Result and category of a tool call, as the server reports them
+ */
+async function call(name, respond) {
+  const tool = signupTools.find(candidate => candidate.name === name);
+  const client = new AqsClient({ fetch: async () => respond(), rateLimitMs: 0, maxRetries: 0 });
+  try {
+    return { result: await tool.handler(ARGUMENTS, client) };
+  } catch (error) {
+    return { result: errorResult(error), category: errorCategory(error) };
+  }
+}
+
+for (const name of ['aqs_fields_by_service', 'aqs_revision_history', 'aqs_known_issues']) {
+  for (const [category, respond] of [
+    ['auth', () => new Response('who', { status: 401 })],
+    ['rate_limit', () => new Response('busy', { status: 429 })],
+    ['server', () => new Response('down', { status: 503 })],
+    [
+      'network',
+      () => {
+        throw new TypeError('fetch failed');
+      },
+    ],
+  ]) {
+    test(`${name} reports ${category} failures as errors`, async () => {
+      const { result, category: reported } = await call(name, respond);
+
+      assert.equal(result.isError, true);
+      assert.equal(reported, category);
+      assert.match(result.content[0].text, new RegExp(`^Error \\[${category}\\]`));
+    });
+  }
+}
+
+test('an empty known issues list is an answer', async () => {
+  const { result } = await call('aqs_known_issues', () =>
+    new Response(JSON.stringify({ Header: [{ status: 'No data matched your selection' }], Data: [] }))
+  );
+
+  assert.equal(result.isError, undefined);
+  assert.equal(result.content[0].text, 'No known issues are currently listed.');
+});
@@ -0,0 +1,353 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { test } from 'node:test';
+
+import { AqsClient } from '../dist/client.js';
+import { SERVICES } from '../dist/catalog.js';
+import { AqsLocalError, AqsNetworkError } from '../dist/errors.js';
+import { DataArrayParser, JsonLinesWriter, RowLimit } from '../dist/stream.js';
+import { catalogTools } from '../dist/tools/catalog.js';
+
+const HEADER = [{ status: 'Success', request_time: '2024-01-01T00:00:00', url: 'https://example.test/' }];
+
+/**
+ * A sample data row the size of a real one
+ */
+function sampleRow(index) {
+  return {
+    state_code: '06',
+    county_code: '037',
+    site_number: String(index % 10000).padStart(4, '0'),
+    parameter_code: '44201',
+    poc: 1,
+    latitude: 34.06659,
+    longitude: -118.22688,
+    parameter: 'Ozone',
+    date_local: '2023-01-01',
+    time_local: `${String(index % 24).padStart(2, '0')}:00`,
+    sample_measurement: (index % 100) / 1000,
+    units_of_measure: 'Parts per million',
+    sample_duration: '1 HOUR',
+    method: 'INSTRUMENTAL - ULTRA VIOLET ABSORPTION',
+    date_of_last_change: '2023-06-01',
+  };
+}
+
+/**
+ * Response whose body is generated as it is read, `rows` rows in all
+ *
+ * The size of the body sent so far is kept in `sent.bytes`.
+ */
+function generatedResponse(rows, sent = { bytes: 0 }) {
+  const encoder = new TextEncoder();
+  let next = 0;
+  const send = (controller, text) => {
+    const chunk = encoder.encode(text);
+    sent.bytes += chunk.byteLength;
+    controller.enqueue(chunk);
+  };
+  const body = new ReadableStream({
+    start(controller) {
+      send(controller, `{"Header":${JSON.stringify(HEADER)},"Data":[`);
+    },
+    pull(controller) {
+      if (next >= rows) {
+        send(controller, ']}');
+        controller.close();
+        return;
+      }
+      const lines = [];
+      for (const end = Math.min(next + 500, rows); next < end; next++) {
+        lines.push(`${next === 0 ? '' : ','}${JSON.stringify(sampleRow(next))}`);
+      }
+      send(controller, lines.join(''));
+    },
+  });
+  return new Response(body, { headers: { 'content-type': 'application/json' } });
+}
+
+function responseOf(data) {
+  return new Response(JSON.stringify({ Header: HEADER, Data: data }));
+}
+
+function testClient(fetch) {
+  return new AqsClient({ fetch, rateLimitMs: 0, maxRetries: 0, timeoutMs: 0 });
+}
+
+test('parser matches JSON.parse at every chunk boundary', () => {
+  const body = JSON.stringify({
+    Header: [{ status: 'Success', error: ['a "quoted" ] error, with { braces'] }],
+    Data: [
+      { text: 'comma, colon: bracket] brace} quote\\" backslash\\\\', unicode: 'é ☃ 😀' },
+      { nested: { list: [1, [2, { deep: null }]], empty: {} }, none: [] },
+      -12.5e-3,
+      true,
+      null,
+      'a string row',
+      [1, 2, 3],
+    ],
+    Trailer: 7,
+  }, null, 1);
+  const expected = JSON.parse(body);
+
+  for (let size = 1; size <= body.length; size++) {
+    const rows = [];
+    const parser = new DataArrayParser(row => {
+      rows.push(row);
+    });
+    for (let i = 0; i < body.length; i += size) {
+      parser.write(body.slice(i, i + size));
+    }
+    const values = parser.end();
+
+    assert.deepEqual(rows, expected.Data, `rows with chunk size ${size}`);
+    assert.deepEqual(values, { Header: expected.Header, Trailer: 7 }, `values with chunk size ${size}`);
+  }
+});
+
+test('parser rejects a truncated body', () => {
+  const parser = new DataArrayParser(() => {});
+  parser.write('{"Header":[],"Data":[{"a":1},{"b"');
+  assert.throws(() => parser.end(), SyntaxError);
+});
+
+test('streaming a large body keeps the heap bounded', async () => {
+  const rows = 300_000;
+  const sent = { bytes: 0 };
+  const client = testClient(async () => generatedResponse(rows, sent));
+  const baseline = process.memoryUsage().heapUsed;
+  let peak = baseline;
+  let count = 0;
+
+  const result = await client.streamByYear('sampleData/byState', { bdate: '20230101', edate: '20231231' }, () => {
+    count++;
+    if (count % 10_000 === 0) {
+      peak = Math.max(peak, process.memoryUsage().heapUsed);
+    }
+  });
+
+  assert.equal(result.rows, rows);
+  assert.equal(count, rows);
+  // The body is far larger than the heap growth allowed
+  assert.ok(sent.bytes > 100 * 1024 * 1024, `body of ${sent.bytes} bytes`);
+  assert.ok(peak - baseline < 48 * 1024 * 1024, `heap grew by ${peak - baseline} bytes`);
+});
+
+test('a large body streams to a JSON Lines file', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'aqs-stream-'));
+  try {
+    const rows = 50_000;
+    const client = testClient(async () => generatedResponse(rows));
+    const writer = new JsonLinesWriter(join(directory, 'rows.jsonl'));
+
+    await writer.open();
+    try {
+      await client.streamByYear(
+        'sampleData/byState',
+        { bdate: '20230101', edate: '20231231' },
+        row => writer.add(row),
+        { ready: () => writer.ready() }
+      );
+    } finally {
+      await writer.close();
+    }
+
+    const lines = (await readFile(writer.path, 'utf8')).trimEnd().split('\n');
+    assert.equal(lines.length, rows);
+    assert.deepEqual(JSON.parse(lines[rows - 1]), sampleRow(rows - 1));
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test('an exactly met row limit skips the remaining years', async () => {
+  const requests = [];
+  const client = testClient(async url => {
+    requests.push(new URL(url).searchParams.get('bdate'));
+    return responseOf([sampleRow(0), sampleRow(1), sampleRow(2)]);
+  });
+  const limit = new RowLimit(3);
+
+  const result = await client.streamByYear(
+    'sampleData/byState',
+    { bdate: '20190101', edate: '20201231' },
+    row => limit.add(row),
+    { done: () => limit.full }
+  );
+
+  assert.deepEqual(requests, ['20190101']);
+  assert.equal(result.rows, 3);
+  assert.deepEqual(result.years.map(year => [year.year, year.rows]), [[2019, 3]]);
+  assert.equal(limit.rows.length, 3);
+});
+
+test('rows rejected by the limit are not counted', async () => {
+  const client = testClient(async () => responseOf([sampleRow(0), sampleRow(1), sampleRow(2)]));
+  const limit = new RowLimit(2, { keepRows: false });
+
+  const result = await client.streamByYear(
+    'sampleData/byState',
+    { bdate: '20230101', edate: '20231231' },
+    row => limit.add(row)
+  );
+
+  assert.equal(result.rows, 2);
+  assert.equal(result.stopped, true);
+  assert.equal(limit.count, 2);
+  assert.deepEqual(limit.rows, []);
+});
+
+/**
+ * Response with one chunk of `rows` rows that records whether it was cancelled
+ *
+ * With `fail`, the connection breaks after the first chunk instead of
+ * sending the rest.
+ */
+function trackedResponse(rows, tracked, { fail = false } = {}) {
+  const text = `{"Header":${JSON.stringify(HEADER)},"Data":[${rows.map(row => JSON.stringify(row)).join(',')}`;
+  let sent = false;
+  const body = new ReadableStream({
+    pull(controller) {
+      if (sent) {
+        if (fail) {
+          controller.error(new TypeError('terminated'));
+        }
+        // Otherwise the rest of the body never arrives
+        return new Promise(() => {});
+      }
+      sent = true;
+      controller.enqueue(new TextEncoder().encode(text));
+    },
+    cancel() {
+      tracked.cancelled = true;
+    },
+  });
+  return new Response(body);
+}
+
+test('a failing row handler closes the response and is neither wrapped nor retried', async () => {
+  const tracked = { cancelled: false, attempts: 0 };
+  const client = new AqsClient({
+    fetch: async () => {
+      tracked.attempts++;
+      return trackedResponse([sampleRow(0), sampleRow(1)], tracked);
+    },
+    rateLimitMs: 0,
+    maxRetries: 2,
+    retryBaseMs: 1,
+    timeoutMs: 0,
+  });
+  const bug = new RangeError('row handler bug');
+
+  await assert.rejects(
+    client.streamByYear('sampleData/byState', { bdate: '20220101', edate: '20231231' }, () => {
+      throw bug;
+    }),
+    error => error === bug
+  );
+  assert.equal(tracked.cancelled, true);
+  // Neither retried nor skipped to the next year
+  assert.equal(tracked.attempts, 1);
+});
+
+test('a broken connection is a network error, retried until rows are delivered', async () => {
+  const tracked = { cancelled: false, attempts: 0 };
+  let rows = [sampleRow(0)];
+  const client = new AqsClient({
+    fetch: async () => {
+      tracked.attempts++;
+      return trackedResponse(rows, tracked, { fail: true });
+    },
+    rateLimitMs: 0,
+    maxRetries: 2,
+    retryBaseMs: 1,
+    timeoutMs: 0,
+  });
+
+  await assert.rejects(
+    client.streamByYear('sampleData/byState', { bdate: '20230101', edate: '20231231' }, () => {}),
+    error => error instanceof AqsNetworkError && /response was interrupted: terminated/.test(error.message)
+  );
+  // A row was delivered, so the year is not retried
+  assert.equal(tracked.attempts, 1);
+
+  // Without rows it is
+  tracked.attempts = 0;
+  rows = [];
+  await assert.rejects(
+    client.streamByYear('sampleData/byState', { bdate: '20230101', edate: '20231231' }, () => {}),
+    AqsNetworkError
+  );
+  assert.equal(tracked.attempts, 3);
+});
+
+test('an unwritable output_file fails the call, not the process', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'aqs-stream-'));
+  try {
+    const tool = catalogTools(SERVICES).find(candidate => candidate.name === 'aqs_sample_data_by_state');
+    const client = testClient(async () => responseOf([sampleRow(0)]));
+
+    await assert.rejects(
+      tool.handler(
+        {
+          email: 'test@example.com',
+          key: 'testkey',
+          param: '44201',
+          bdate: '20230101',
+          edate: '20230131',
+          state: '06',
+          output_file: directory,
+        },
+        client
+      ),
+      AqsLocalError
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test('output files are created new and never overwrite an existing file', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'aqs-stream-'));
+  const previous = process.cwd();
+  try {
+    const tools = catalogTools(SERVICES);
+    const client = testClient(async () => responseOf([sampleRow(0)]));
+    const args = {
+      email: 'test@example.com',
+      key: 'testkey',
+      param: '44201',
+      bdate: '20230101',
+      edate: '20230131',
+      state: '06',
+    };
+    const existing = join(directory, 'existing.txt');
+    await writeFile(existing, 'keep me\n');
+
+    for (const name of ['aqs_sample_data_by_state', 'aqs_transactions_sample_by_state']) {
+      await assert.rejects(
+        tools.find(tool => tool.name === name).handler({ ...args, output_file: existing }, client),
+        error => error instanceof AqsLocalError && /already exists/.test(error.message),
+        name
+      );
+    }
+    assert.equal(await readFile(existing, 'utf8'), 'keep me\n');
+
+    // Both tools report the resolved path of a relative output_file
+    process.chdir(directory);
+    const samples = await tools
+      .find(tool => tool.name === 'aqs_sample_data_by_state')
+      .handler({ ...args, output_file: 'out/rows.jsonl' }, client);
+    const transactions = await tools
+      .find(tool => tool.name === 'aqs_transactions_sample_by_state')
+      .handler({ ...args, output_file: 'out/rows.txt' }, client);
+
+    assert.equal(JSON.parse(samples.content[0].text).output_file, join(directory, 'out', 'rows.jsonl'));
+    assert.equal(JSON.parse(transactions.content[0].text).output_file, join(directory, 'out', 'rows.txt'));
+  } finally {
+    process.chdir(previous);
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { AqsValidationError } from '../dist/errors.js';
+import { validateArguments, withArgumentPatterns } from '../dist/validation.js';
+
+const SCHEMA = {
+  type: 'object',
+  properties: {
+    state: { type: 'string', description: 'State' },
+    county: { type: 'string', description: 'County' },
+    site: { type: 'string', description: 'Site' },
+    cbsa: { type: 'string', description: 'CBSA' },
+    pqao: { type: 'string', description: 'PQAO' },
+    agency: { type: 'string', description: 'Agency' },
+    param: { type: 'string', description: 'Parameters' },
+    bdate: { type: 'string', description: 'Begin date' },
+    minlat: { type: 'string', description: 'Minimum latitude' },
+    minlon: { type: 'string', description: 'Minimum longitude' },
+    format: { type: 'string', enum: ['json', 'transaction'], description: 'Format' },
+    max_rows: { type: 'integer', minimum: 1, description: 'Row limit' },
+    ratio: { type: 'number', description: 'Ratio' },
+    summarize: { type: 'boolean', description: 'Summarize' },
+  },
+  required: ['state'],
+};
+
+function invalid(args, message) {
+  assert.throws(
+    () => validateArguments('aqs_test', SCHEMA, { state: '06', ...args }),
+    error => error instanceof AqsValidationError && message.test(error.message)
+  );
+}
+
+test('codes missing their leading zeros are padded', () => {
+  assert.deepEqual(
+    validateArguments('aqs_test', SCHEMA, {
+      state: '6',
+      county: 37,
+      site: '2',
+      pqao: 13,
+      agency: '13',
+    }),
+    { state: '06', county: '037', site: '0002', pqao: '0013', agency: '0013' }
+  );
+});
+
+test('codes of the wrong shape are rejected', () => {
+  invalid({ county: '1234' }, /county must be a three-digit FIPS county code/);
+  invalid({ site: 'ab' }, /site must be a four-digit AQS site number/);
+  invalid({ state: '6a' }, /state must be a two-digit FIPS state code/);
+  invalid({ cbsa: '1080' }, /cbsa must be a five-digit CBSA code/);
+});
+
+test('param accepts up to five codes and drops spaces', () => {
+  assert.equal(
+    validateArguments('aqs_test', SCHEMA, { state: '06', param: '44201, 42401' }).param,
+    '44201,42401'
+  );
+  invalid({ param: '44201,42401,42101,42602,81102,88101' }, /param must be one to five/);
+  invalid({ param: '4420' }, /param must be one to five/);
+});
+
+test('dates must be YYYYMMDD', () => {
+  assert.equal(validateArguments('aqs_test', SCHEMA, { state: '06', bdate: '20230101' }).bdate, '20230101');
+  invalid({ bdate: '2023-01-01' }, /bdate must be a date in YYYYMMDD format/);
+});
+
+test('coordinates must be decimal degrees within range', () => {
+  const args = validateArguments('aqs_test', SCHEMA, { state: '06', minlat: '-33.5', minlon: -118 });
+  assert.deepEqual([args.minlat, args.minlon], ['-33.5', '-118']);
+  invalid({ minlat: '91' }, /minlat must be between -90 and 90/);
+  invalid({ minlon: '-180.5' }, /minlon must be between -180 and 180/);
+  invalid({ minlat: 'north' }, /minlat must be a latitude in decimal degrees/);
+});
+
+test('numbers and booleans are converted to their schema types', () => {
+  const args = validateArguments('aqs_test', SCHEMA, {
+    state: '06',
+    max_rows: '100',
+    summarize: 'true',
+  });
+  assert.equal(args.max_rows, 100);
+  assert.equal(args.summarize, true);
+  assert.equal(validateArguments('aqs_test', SCHEMA, { state: '06', summarize: false }).summarize, false);
+  assert.equal(validateArguments('aqs_test', SCHEMA, { state: '06', ratio: '0.5' }).ratio, 0.5);
+  invalid({ max_rows: 'many' }, /max_rows must be a number/);
+  invalid({ summarize: 'yes' }, /summarize must be true or false/);
+});
+
+test('integers must be whole numbers no smaller than their minimum', () => {
+  assert.equal(validateArguments('aqs_test', SCHEMA, { state: '06', max_rows: 1 }).max_rows, 1);
+  invalid({ max_rows: 2.5 }, /max_rows must be a whole number/);
+  invalid({ max_rows: 0 }, /max_rows must be at least 1/);
+  invalid({ max_rows: '-3' }, /max_rows must be at least 1/);
+});
+
+test('enums are enforced', () => {
+  invalid({ format: 'csv' }, /format must be one of "json", "transaction"/);
+});
+
+test('empty optional arguments are treated as omitted', () => {
+  assert.deepEqual(validateArguments('aqs_test', SCHEMA, { state: '06', county: '', max_rows: null }), {
+    state: '06',
+  });
+});
+
+test('missing, unknown, and several invalid arguments are all reported', () => {
+  assert.throws(
+    () => validateArguments('aqs_test', SCHEMA, { county: 'x', colour: 'red' }),
+    error =>
+      error instanceof AqsValidationError &&
+      error.message.startsWith('Invalid arguments:\n') &&
+      error.message.includes('- county must be') &&
+      error.message.includes('- colour is not an argument of aqs_test') &&
+      error.message.includes('- state is required')
+  );
+});
+
+test('advertised schemas carry the format patterns and allow no other arguments', () => {
+  const schema = withArgumentPatterns(SCHEMA);
+  assert.equal(schema.additionalProperties, false);
+  assert.equal(schema.properties.state.pattern, '^\\d{2}$');
+  assert.equal(schema.properties.max_rows.pattern, undefined);
+  assert.deepEqual(schema.required, ['state']);
+});